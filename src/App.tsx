@@ -1,20 +1,34 @@
-import { useState, useEffect } from 'react'
+import { lazy, Suspense, useState, useEffect } from 'react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
 import { blink } from './blink/client'
 import { DailyReflection } from './components/DailyReflection'
 import { Dashboard } from './components/Dashboard'
 import { WeeklySummaries } from './components/WeeklySummaries'
 import { WeeklySummaryViewer } from './components/WeeklySummaryViewer'
+import { Retrospectives } from './components/Retrospectives'
+import { RetrospectiveViewer } from './components/RetrospectiveViewer'
 import { ReflectionViewer } from './components/ReflectionViewer'
+import { MentalBlockHistory } from './components/MentalBlockHistory'
 import { ProfileSetup } from './components/ProfileSetup'
 import { Navigation } from './components/Navigation'
 import { Toaster } from './components/ui/toaster'
+import { toast } from './hooks/use-toast'
+import { profileRepository, isProfileComplete, storageIssues, syncQueue, syncUserData, type MentalBlockId } from './storage'
+
+// Developer tool: only dev builds import it, so production bundles leave it out
+const PromptReview = import.meta.env.DEV
+  ? lazy(() => import('./components/PromptReview').then(module => ({ default: module.PromptReview })))
+  : null
 
 function App() {
-  const [user, setUser] = useState(null)
+  const [user, setUser] = useState<BlinkUser | null>(null)
   const [loading, setLoading] = useState(true)
   const [currentPage, setCurrentPage] = useState('reflection')
   const [viewingReflection, setViewingReflection] = useState<string | null>(null)
   const [viewingSummary, setViewingSummary] = useState<string | null>(null)
+  const [viewingRetrospective, setViewingRetrospective] = useState<string | null>(null)
+  // undefined when closed; null opens the history on the most frequent block
+  const [viewingBlocks, setViewingBlocks] = useState<MentalBlockId | null | undefined>(undefined)
   const [profileCompleted, setProfileCompleted] = useState(false)
 
   useEffect(() => {
@@ -25,28 +39,37 @@ function App() {
     return unsubscribe
   }, [])
 
+  // Let the founder know when saved data could not be read
+  useEffect(() => {
+    return storageIssues.subscribe((issue) => {
+      toast({
+        title: "Some Saved Data Couldn't Be Loaded",
+        description: issue.skipped
+          ? `A stored ${issue.kind} was saved by a newer version of the app and has been left untouched. Reload to see it.`
+          : `A stored ${issue.kind} was unreadable (${issue.reason}) and has been set aside.`,
+        variant: "destructive"
+      })
+    })
+  }, [])
+
+  // Pull remote data on sign-in and replay queued writes whenever we reconnect
+  useEffect(() => {
+    if (!user?.id) return
+    syncUserData(user.id)
+    return syncQueue.start()
+  }, [user?.id])
+
   // Check if profile is completed when user changes
   useEffect(() => {
-    if (user?.id) {
-      const savedProfile = localStorage.getItem(`founder_profile_${user.id}`)
-      if (savedProfile) {
-        try {
-          const profile = JSON.parse(savedProfile)
-          // Check if required fields are filled
-          const isCompleted = profile.companyName && 
-                            profile.industry && 
-                            profile.stage && 
-                            profile.goals && 
-                            profile.goals.length > 0
-          setProfileCompleted(isCompleted)
-        } catch (error) {
-          console.error('Error parsing profile:', error)
-          setProfileCompleted(false)
-        }
-      } else {
-        setProfileCompleted(false)
-      }
+    if (!user?.id) return
+
+    const checkProfile = async () => {
+      const profile = await profileRepository.get(user.id)
+      setProfileCompleted(isProfileComplete(profile))
     }
+
+    checkProfile()
+    return profileRepository.subscribe(user.id, checkProfile)
   }, [user])
 
   const handleViewReflection = (date: string) => {
@@ -57,6 +80,19 @@ function App() {
     setViewingSummary(summaryId)
   }
 
+  const handleViewRetrospective = (retrospectiveId: string) => {
+    setViewingRetrospective(retrospectiveId)
+  }
+
+  const handleViewMentalBlocks = (block: MentalBlockId | null) => {
+    setViewingBlocks(block)
+  }
+
+  const handleBackFromBlocks = () => {
+    setViewingBlocks(undefined)
+    setCurrentPage('dashboard')
+  }
+
   const handleBackToDashboard = () => {
     setViewingReflection(null)
     setCurrentPage('dashboard')
@@ -67,6 +103,11 @@ function App() {
     setCurrentPage('summaries')
   }
 
+  const handleBackToRetrospectives = () => {
+    setViewingRetrospective(null)
+    setCurrentPage('retrospectives')
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -121,16 +162,47 @@ function App() {
       )
     }
 
+    // Handle viewing specific retrospective
+    if (viewingRetrospective) {
+      return (
+        <RetrospectiveViewer
+          user={user}
+          retrospectiveId={viewingRetrospective}
+          onBack={handleBackToRetrospectives}
+          onViewSummary={handleViewSummary}
+          onViewReflection={handleViewReflection}
+        />
+      )
+    }
+
+    // Handle viewing mental block history
+    if (viewingBlocks !== undefined) {
+      return (
+        <MentalBlockHistory
+          user={user}
+          initialBlock={viewingBlocks}
+          onBack={handleBackFromBlocks}
+          onViewReflection={handleViewReflection}
+        />
+      )
+    }
+
     // Handle regular pages
     switch (currentPage) {
       case 'reflection':
         return <DailyReflection user={user} />
       case 'dashboard':
-        return <Dashboard user={user} onViewReflection={handleViewReflection} />
+        return <Dashboard user={user} onViewReflection={handleViewReflection} onViewMentalBlocks={handleViewMentalBlocks} />
       case 'summaries':
         return <WeeklySummaries user={user} onViewSummary={handleViewSummary} />
+      case 'retrospectives':
+        return <Retrospectives user={user} onViewRetrospective={handleViewRetrospective} />
       case 'profile':
         return <ProfileSetup user={user} />
+      case 'prompts':
+        return PromptReview
+          ? <Suspense fallback={null}><PromptReview user={user} /></Suspense>
+          : <DailyReflection user={user} />
       default:
         return <DailyReflection user={user} />
     }
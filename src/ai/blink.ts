@@ -0,0 +1,323 @@
+import { blink } from '../blink/client'
+import type { BlockDetection, DistressLevel, Mood } from '../storage'
+import { toPoints } from '../lib/weekly-summary'
+import { COMMITMENT_OUTCOMES, type CommitmentOutcome } from '../lib/commitments'
+import { TOPIC_IDS, asTopic } from '../lib/topic-coverage'
+import { MENTAL_BLOCK_IDS, asMentalBlock, findQuote } from '../lib/mental-blocks'
+import { renderPrompt } from './prompts'
+import type { AIService } from './types'
+
+const QUESTION_MODEL = 'gpt-4o-mini'
+
+const MOODS: Mood[] = ['energized', 'positive', 'neutral', 'stressed', 'discouraged']
+
+const DISTRESS_LEVELS: DistressLevel[] = ['none', 'elevated', 'acute']
+
+const pointSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      sourceDates: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['text', 'sourceDates']
+  }
+}
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.map(String).map(s => s.trim()).filter(Boolean) : []
+
+// The blink.ai implementation; prompts come from the registry and responses are validated here
+export function createBlinkAI(client = blink): AIService {
+  return {
+    name: 'blink',
+
+    async generateQuestion(request, onChunk, signal) {
+      const prompt = request.intervention
+        ? renderPrompt('intervention_step', { messages: request.messages, intervention: request.intervention })
+        : renderPrompt('coach_question', request)
+      const { text } = await client.ai.streamText({
+        prompt: prompt.text,
+        model: QUESTION_MODEL,
+        maxTokens: 120,
+        signal
+      }, onChunk)
+      return { text, promptVersion: prompt.label }
+    },
+
+    async analyzeContext(messages, session) {
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('topic_analysis', { messages, session }).text,
+        schema: {
+          type: 'object',
+          properties: {
+            topics: {
+              type: 'array',
+              items: { type: 'string', enum: TOPIC_IDS }
+            },
+            currentTopic: { type: 'string', enum: TOPIC_IDS },
+            currentTopicSpecificity: {
+              type: 'number',
+              minimum: 0,
+              maximum: 3
+            },
+            shouldMoveToNewTopic: {
+              type: 'boolean'
+            },
+            suggestedNextTopic: { type: 'string', enum: TOPIC_IDS }
+          },
+          required: ['topics', 'currentTopic', 'currentTopicSpecificity', 'shouldMoveToNewTopic', 'suggestedNextTopic']
+        }
+      })
+
+      return {
+        topics: Array.isArray(object.topics) ? object.topics.map(asTopic).filter(Boolean) as string[] : [],
+        currentTopic: asTopic(object.currentTopic),
+        currentTopicSpecificity: Math.max(0, Math.min(3, Math.round(Number(object.currentTopicSpecificity) || 0))),
+        shouldMoveToNewTopic: Boolean(object.shouldMoveToNewTopic),
+        suggestedNextTopic: asTopic(object.suggestedNextTopic)
+      }
+    },
+
+    async summarizeWeek(request) {
+      const reflectionDates = new Set(request.reflections.map(r => r.date))
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('week_summary', request).text,
+        schema: {
+          type: 'object',
+          properties: {
+            summaryText: { type: 'string' },
+            progressHighlights: pointSchema,
+            challengesIdentified: pointSchema,
+            mentalBlocksAddressed: pointSchema,
+            recommendations: pointSchema
+          },
+          required: ['summaryText', 'progressHighlights', 'challengesIdentified', 'mentalBlocksAddressed', 'recommendations']
+        }
+      })
+
+      if (typeof object?.summaryText !== 'string' || !object.summaryText.trim()) {
+        throw new Error('Weekly summary response is missing its overview')
+      }
+
+      return {
+        summaryText: object.summaryText.trim(),
+        progressHighlights: toPoints(object.progressHighlights, reflectionDates),
+        challengesIdentified: toPoints(object.challengesIdentified, reflectionDates),
+        mentalBlocksAddressed: toPoints(object.mentalBlocksAddressed, reflectionDates),
+        recommendations: toPoints(object.recommendations, reflectionDates)
+      }
+    },
+
+    async scoreReflection(reflection) {
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('assessment', reflection).text,
+        schema: {
+          type: 'object',
+          properties: {
+            progressScore: { type: 'number', minimum: 0, maximum: 100 },
+            progressRationale: { type: 'string' },
+            mentalBlocks: { type: 'array', items: { type: 'string' } },
+            keyInsights: { type: 'array', items: { type: 'string' } },
+            mood: { type: 'string', enum: MOODS },
+            commitments: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['progressScore', 'progressRationale', 'mentalBlocks', 'keyInsights', 'mood', 'commitments']
+        }
+      })
+
+      return {
+        progressScore: Math.max(0, Math.min(100, Math.round(Number(object.progressScore) || 0))),
+        progressRationale: String(object.progressRationale ?? ''),
+        mentalBlocks: Array.isArray(object.mentalBlocks) ? object.mentalBlocks.map(String) : [],
+        keyInsights: Array.isArray(object.keyInsights) ? object.keyInsights.map(String) : [],
+        mood: MOODS.includes(object.mood) ? object.mood : 'neutral',
+        commitments: Array.isArray(object.commitments) ? object.commitments.map(String) : [],
+        assessedAt: new Date().toISOString()
+      }
+    },
+
+    async writeWrapUp(messages, format, flagged) {
+      const prompt = renderPrompt('wrap_up', { messages, format, flagged })
+      const { object } = await client.ai.generateObject({
+        prompt: prompt.text,
+        schema: {
+          type: 'object',
+          properties: {
+            recap: { type: 'string' },
+            topInsight: { type: 'string' },
+            commitments: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['recap', 'topInsight', 'commitments']
+        }
+      })
+
+      if (typeof object?.recap !== 'string' || !object.recap.trim()) {
+        throw new Error('Wrap-up response is missing its recap')
+      }
+
+      return {
+        recap: object.recap.trim(),
+        topInsight: String(object.topInsight ?? '').trim(),
+        commitments: stringList(object.commitments),
+        format,
+        promptVersion: prompt.label,
+        createdAt: new Date().toISOString()
+      }
+    },
+
+    async inferOutcomes(commitments, answer) {
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('commitment_outcomes', { commitments, answer }).text,
+        schema: {
+          type: 'object',
+          properties: {
+            outcomes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  outcome: { type: 'string', enum: [...COMMITMENT_OUTCOMES, 'unclear'] }
+                },
+                required: ['id', 'outcome']
+              }
+            }
+          },
+          required: ['outcomes']
+        }
+      })
+
+      const outcomes: Record<string, CommitmentOutcome> = {}
+      for (const item of Array.isArray(object?.outcomes) ? object.outcomes : []) {
+        if (commitments.some(c => c.id === item?.id) && COMMITMENT_OUTCOMES.includes(item.outcome)) {
+          outcomes[item.id] = item.outcome
+        }
+      }
+      return outcomes
+    },
+
+    async writeRetrospective(request) {
+      const sourceDates = new Set([
+        ...request.reflections.map(r => r.date),
+        ...request.summaries.flatMap(s => [
+          ...s.progressHighlights,
+          ...s.challengesIdentified,
+          ...s.mentalBlocksAddressed,
+          ...s.recommendations
+        ].flatMap(p => p.sourceDates))
+      ])
+
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('retrospective', request).text,
+        schema: {
+          type: 'object',
+          properties: {
+            overview: { type: 'string' },
+            progressTrend: pointSchema,
+            recurringBlocks: pointSchema,
+            goalMovement: pointSchema
+          },
+          required: ['overview', 'progressTrend', 'recurringBlocks', 'goalMovement']
+        }
+      })
+
+      if (typeof object?.overview !== 'string' || !object.overview.trim()) {
+        throw new Error('Retrospective response is missing its overview')
+      }
+
+      return {
+        overview: object.overview.trim(),
+        progressTrend: toPoints(object.progressTrend, sourceDates),
+        recurringBlocks: toPoints(object.recurringBlocks, sourceDates),
+        goalMovement: toPoints(object.goalMovement, sourceDates)
+      }
+    },
+
+    async detectBlocks(messages) {
+      const prompt = renderPrompt('block_detection', { messages })
+      const { object } = await client.ai.generateObject({
+        prompt: prompt.text,
+        schema: {
+          type: 'object',
+          properties: {
+            detections: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  block: { type: 'string', enum: MENTAL_BLOCK_IDS },
+                  messageId: { type: 'string' },
+                  evidence: { type: 'string' },
+                  intensity: { type: 'number', minimum: 1, maximum: 3 }
+                },
+                required: ['block', 'messageId', 'evidence', 'intensity']
+              }
+            }
+          },
+          required: ['detections']
+        }
+      })
+
+      // Detections must name a real answer and quote it; paraphrased evidence is dropped
+      const detections: BlockDetection[] = []
+      for (const item of Array.isArray(object?.detections) ? object.detections : []) {
+        const block = asMentalBlock(item?.block)
+        const message = messages.find(m => m.role === 'user' && m.id === item?.messageId)
+        const evidence = message && findQuote(message, String(item?.evidence ?? ''))
+        if (!block || !message || !evidence) continue
+        detections.push({
+          block,
+          messageId: message.id,
+          evidence,
+          intensity: Math.max(1, Math.min(3, Math.round(Number(item.intensity) || 1)))
+        })
+      }
+
+      return { detections, promptVersion: prompt.label, analyzedAt: new Date().toISOString() }
+    },
+
+    async summarizeIntervention(messages, intervention) {
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('intervention_outcome', { messages, intervention }).text,
+        schema: {
+          type: 'object',
+          properties: {
+            insight: { type: 'string' },
+            nextStep: { type: 'string' }
+          },
+          required: ['insight', 'nextStep']
+        }
+      })
+
+      if (typeof object?.insight !== 'string' || !object.insight.trim()) {
+        throw new Error('Exercise outcome is missing its insight')
+      }
+
+      return {
+        insight: object.insight.trim(),
+        nextStep: String(object.nextStep ?? '').trim() || undefined,
+        completedAt: new Date().toISOString()
+      }
+    },
+
+    async checkDistress(answer) {
+      const { object } = await client.ai.generateObject({
+        prompt: renderPrompt('distress_check', { answer }).text,
+        schema: {
+          type: 'object',
+          properties: {
+            level: { type: 'string', enum: DISTRESS_LEVELS }
+          },
+          required: ['level']
+        }
+      })
+
+      if (!DISTRESS_LEVELS.includes(object?.level)) {
+        throw new Error('Distress check returned no level')
+      }
+      return object.level
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import type { Commitment, FounderProfile, ReflectionData } from '../storage'
+import { BUILT_IN_TEMPLATES } from '../lib/session-templates'
+
+/**
+ * A saved conversation that prompts are rendered against for review. The
+ * optional context fills the parts of prompt inputs a reflection alone lacks.
+ */
+export interface PromptFixture {
+  id: string
+  description: string
+  reflection: ReflectionData
+  profile?: FounderProfile
+  commitments?: Commitment[] // earlier commitments the first answer follows up on
+}
+
+const at = (minute: number) => Date.UTC(2025, 2, 12, 18, minute)
+
+const profile: FounderProfile = {
+  companyName: 'Tally',
+  industry: 'Consumer fintech',
+  stage: 'pre-seed',
+  goals: ['Reach 500 weekly active users', 'Close a pre-seed round'],
+  currentChallenges: ['Retention after week one'],
+  reflectionStreak: 4,
+  lastReflectionDate: '2025-03-11'
+}
+
+const dailyTemplate = BUILT_IN_TEMPLATES[0]
+const fundraisingTemplate = BUILT_IN_TEMPLATES.find(t => t.wrapUpFormat === 'fundraising_prep') ?? dailyTemplate
+
+export const PROMPT_FIXTURES: PromptFixture[] = [
+  {
+    id: 'shipping-day',
+    description: 'Mid-session daily reflection after a release, with a hiring worry',
+    profile,
+    reflection: {
+      id: '2025-03-12_1741802400000',
+      date: '2025-03-12',
+      userId: 'fixture',
+      updatedAt: at(12),
+      messages: [
+        { id: '1', role: 'assistant', content: dailyTemplate.openingQuestion, timestamp: at(0) },
+        { id: '2', role: 'user', content: 'We shipped the shared budgets feature. Three beta users set one up within an hour, which is the first time a feature got used the same day.', timestamp: at(2) },
+        { id: '3', role: 'assistant', content: 'That same-day pickup is a great signal. What do you think made shared budgets land so quickly compared to earlier features?', timestamp: at(3), promptVersion: 'coach_question@v1' },
+        { id: '4', role: 'user', content: 'It came straight out of customer interviews. But I am worried about hiring: our only engineer is stretched and I keep putting off writing the job post.', timestamp: at(6) }
+      ],
+      sessionState: {
+        startTime: at(0),
+        questionCount: 2,
+        maxQuestions: dailyTemplate.maxQuestions,
+        isComplete: false,
+        topics: ['daily_progress', 'product_development', 'customer_feedback'],
+        topicCoverage: {
+          daily_progress: { mentioned: true, explored: true, specificity: 3, lastQuestionIndex: 0 },
+          product_development: { mentioned: true, explored: false, specificity: 1, lastQuestionIndex: 1 },
+          customer_feedback: { mentioned: true, explored: false, specificity: 1, lastQuestionIndex: 1 }
+        },
+        currentFocus: 'team_issues',
+        template: dailyTemplate
+      }
+    }
+  },
+  {
+    id: 'follow-up-stall',
+    description: 'Session opening on earlier commitments, one done and one avoided',
+    profile,
+    commitments: [
+      { id: '2025-03-11_0', text: 'Send the investor update', sourceDate: '2025-03-11', status: 'open', createdAt: '2025-03-11T19:00:00.000Z', updatedAt: '2025-03-11T19:00:00.000Z' },
+      { id: '2025-03-11_1', text: 'Call five churned users', sourceDate: '2025-03-11', status: 'open', createdAt: '2025-03-11T19:00:00.000Z', updatedAt: '2025-03-11T19:00:00.000Z' }
+    ],
+    reflection: {
+      id: '2025-03-12_1741806000000',
+      date: '2025-03-12',
+      userId: 'fixture',
+      updatedAt: at(20),
+      messages: [
+        { id: '1', role: 'assistant', content: "Welcome back! Before we dive in, let's check in on what you committed to last time:\n\n- Send the investor update\n- Call five churned users\n\nHow did each of these go? Did you get them done, make partial progress, or decide to drop any of them?", timestamp: at(0) },
+        { id: '2', role: 'user', content: 'The investor update went out this morning. I did not call any churned users. Honestly I am afraid of hearing that the product is not good enough.', timestamp: at(3) }
+      ],
+      sessionState: {
+        startTime: at(0),
+        questionCount: 1,
+        maxQuestions: dailyTemplate.maxQuestions,
+        isComplete: false,
+        topics: [],
+        topicCoverage: {},
+        currentFocus: null,
+        followUpCommitmentIds: ['2025-03-11_0', '2025-03-11_1'],
+        template: dailyTemplate
+      }
+    }
+  },
+  {
+    id: 'fundraising-complete',
+    description: 'Finished fundraising prep session, ready for a wrap-up and assessment',
+    profile,
+    reflection: {
+      id: '2025-03-12_1741809600000',
+      date: '2025-03-12',
+      userId: 'fixture',
+      updatedAt: at(40),
+      messages: [
+        { id: '1', role: 'assistant', content: fundraisingTemplate.openingQuestion, timestamp: at(0) },
+        { id: '2', role: 'user', content: 'We have twelve investor conversations going, two asked for a data room. Runway is seven months.', timestamp: at(4) },
+        { id: '3', role: 'assistant', content: 'Two data room requests is real momentum. What is the weakest part of your story when investors push back?', timestamp: at(5), promptVersion: 'coach_question@v1' },
+        { id: '4', role: 'user', content: 'Retention. Week-four retention is 22% and I struggle to explain why it will improve. I will pull the cohort numbers for shared budgets users tomorrow.', timestamp: at(9) },
+        { id: '5', role: 'assistant', content: 'Thank you for reflecting today. Your session is complete. See you next time!', timestamp: at(10), promptVersion: 'wrap_up@v1' }
+      ],
+      sessionState: {
+        startTime: at(0),
+        questionCount: 2,
+        maxQuestions: 2,
+        isComplete: true,
+        topics: ['funding', 'customer_feedback'],
+        topicCoverage: {
+          funding: { mentioned: true, explored: true, specificity: 3, lastQuestionIndex: 0 },
+          customer_feedback: { mentioned: true, explored: false, specificity: 2, lastQuestionIndex: 1 }
+        },
+        currentFocus: 'customer_feedback',
+        template: fundraisingTemplate
+      }
+    }
+  }
+]
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAI, getAI, getAIProviderName, setAIProvider } from '.'
+
+describe('provider selection', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it('defaults to blink', () => {
+    vi.stubEnv('VITE_AI_PROVIDER', '')
+    expect(getAIProviderName()).toBe('blink')
+  })
+
+  it('follows the build setting', () => {
+    vi.stubEnv('VITE_AI_PROVIDER', 'mock')
+    expect(getAIProviderName()).toBe('mock')
+    expect(getAI().name).toBe('mock')
+  })
+
+  it('lets a saved choice override the build setting until it is cleared', () => {
+    vi.stubEnv('VITE_AI_PROVIDER', 'blink')
+    setAIProvider('mock')
+    expect(getAI().name).toBe('mock')
+
+    setAIProvider(null)
+    expect(getAIProviderName()).toBe('blink')
+  })
+
+  it('reuses the provider until the choice changes', () => {
+    setAIProvider('mock')
+    const first = getAI()
+    expect(getAI()).toBe(first)
+    setAIProvider('mock')
+    expect(getAI()).not.toBe(first)
+  })
+
+  it('creates providers by name', () => {
+    expect(createAI('mock').name).toBe('mock')
+  })
+})
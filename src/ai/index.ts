@@ -0,0 +1,39 @@
+import { createBlinkAI } from './blink'
+import { createMockAI } from './mock'
+import type { AIProviderName, AIService } from './types'
+
+export * from './types'
+export { createBlinkAI } from './blink'
+export { createMockAI } from './mock'
+export * from './prompts'
+
+// localStorage key that overrides the configured provider, e.g. to run the app without network
+const PROVIDER_KEY = 'ai_provider'
+
+export function createAI(name: AIProviderName): AIService {
+  return name === 'mock' ? createMockAI() : createBlinkAI()
+}
+
+/**
+ * The provider in use: a choice saved with setAIProvider wins, then the
+ * VITE_AI_PROVIDER build setting, then blink.
+ */
+export function getAIProviderName(): AIProviderName {
+  const configured = localStorage.getItem(PROVIDER_KEY) ?? import.meta.env.VITE_AI_PROVIDER
+  return configured === 'mock' ? 'mock' : 'blink'
+}
+
+let current: AIService | null = null
+
+export function getAI() {
+  const name = getAIProviderName()
+  if (current?.name !== name) current = createAI(name)
+  return current
+}
+
+// Switches provider at runtime; null goes back to the configured default
+export function setAIProvider(name: AIProviderName | null) {
+  if (name) localStorage.setItem(PROVIDER_KEY, name)
+  else localStorage.removeItem(PROVIDER_KEY)
+  current = null
+}
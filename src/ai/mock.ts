@@ -0,0 +1,235 @@
+import type { BlockDetection, MentalBlockId, Message, Mood, ReflectionData, SummaryPoint } from '../storage'
+import { getSessionTopics } from '../lib/topic-coverage'
+import { pickFallbackQuestion } from '../lib/question-bank'
+import { MENTAL_BLOCKS } from '../lib/mental-blocks'
+import { exerciseMessages, nextExerciseStep } from '../lib/interventions'
+import { screenForDistress } from '../lib/safety'
+import type { CommitmentOutcome } from '../lib/commitments'
+import type { AIService } from './types'
+
+// Keywords the mock uses to tag answers with core topics
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  daily_progress: ['finished', 'shipped', 'completed', 'launched', 'progress', 'done'],
+  current_challenges: ['problem', 'struggl', 'hard', 'difficult', 'issue', 'stuck'],
+  immediate_plans: ['tomorrow', 'next week', 'plan', 'going to', 'will'],
+  goals_status: ['goal', 'target', 'milestone', 'okr'],
+  mental_blocks: ['afraid', 'fear', 'avoid', 'procrastinat', 'doubt', 'overwhelm'],
+  team_issues: ['team', 'hire', 'hiring', 'cofounder', 'co-founder', 'employee'],
+  product_development: ['product', 'feature', 'build', 'bug', 'release', 'design'],
+  customer_feedback: ['customer', 'user', 'feedback', 'interview', 'churn'],
+  funding: ['investor', 'raise', 'funding', 'runway', 'pitch', 'vc'],
+  personal_wellbeing: ['tired', 'sleep', 'energy', 'stress', 'burnout', 'exercise']
+}
+
+const BLOCK_KEYWORDS: Record<MentalBlockId, string[]> = {
+  perfectionism: ['perfect', 'not ready', 'polish', 'not good enough'],
+  imposter_syndrome: ['imposter', 'impostor', 'fraud', 'not qualified', 'out of my depth'],
+  fear_of_selling: ['hate selling', 'cold call', 'pricing', 'ask for money', 'pushy'],
+  decision_paralysis: ["can't decide", 'cannot decide', 'torn between', 'keep going back and forth', 'undecided'],
+  burnout: ['burnout', 'burned out', 'burnt out', 'exhausted', 'running on empty'],
+  fear_of_failure: ['afraid', 'scared', 'fail', 'what if it'],
+  procrastination: ['putting off', 'procrastinat', 'keep delaying', 'avoid'],
+  isolation: ['alone', 'lonely', 'no one to', 'by myself']
+}
+
+const MOOD_KEYWORDS: [Mood, string[]][] = [
+  ['discouraged', ['discouraged', 'hopeless', 'give up', 'failing']],
+  ['stressed', ['stress', 'overwhelm', 'anxious', 'tired']],
+  ['energized', ['excited', 'energized', 'pumped', 'thrilled']],
+  ['positive', ['good', 'great', 'happy', 'proud']]
+]
+
+const OUTCOME_KEYWORDS: [CommitmentOutcome, string[]][] = [
+  ['dropped', ['dropped', 'skipped', "didn't", 'did not', 'gave up', 'deprioritized']],
+  ['partial', ['partly', 'partially', 'halfway', 'started', 'some progress']],
+  ['done', ['done', 'finished', 'completed', 'shipped', 'sent']]
+]
+
+const includesAny = (text: string, keywords: string[]) => keywords.some(k => text.includes(k))
+
+const sentences = (text: string) =>
+  text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean)
+
+const answersOf = (messages: Message[]) => messages.filter(m => m.role === 'user').map(m => m.content)
+
+const topicsIn = (text: string) =>
+  Object.entries(TOPIC_KEYWORDS).filter(([, keywords]) => includesAny(text, keywords)).map(([topic]) => topic)
+
+// Sentences where the founder says what they will do next
+const findCommitments = (messages: Message[]) =>
+  answersOf(messages)
+    .flatMap(sentences)
+    .filter(s => /\b(i will|i'll|i'm going to|tomorrow|next week)\b/i.test(s))
+    .slice(0, 3)
+
+const pointsFrom = (reflections: ReflectionData[], pick: (sentence: string) => boolean, limit: number): SummaryPoint[] =>
+  reflections
+    .flatMap(r => answersOf(r.messages).flatMap(sentences).filter(pick).map(text => ({ text, sourceDates: [r.date] })))
+    .slice(0, limit)
+
+// The founder's words for blocks spotted in classified reflections
+const detectedBlockPoints = (reflections: ReflectionData[], limit: number): SummaryPoint[] =>
+  reflections
+    .flatMap(r => (r.blockAnalysis?.detections ?? []).map(d => ({
+      text: `${MENTAL_BLOCKS[d.block].label}: "${d.evidence}"`,
+      sourceDates: [r.date]
+    })))
+    .slice(0, limit)
+
+const isChallenge = (s: string) => includesAny(s.toLowerCase(), TOPIC_KEYWORDS.current_challenges)
+const isBlock = (s: string) => includesAny(s.toLowerCase(), TOPIC_KEYWORDS.mental_blocks)
+const isProgress = (s: string) => includesAny(s.toLowerCase(), TOPIC_KEYWORDS.daily_progress)
+
+/**
+ * A provider that never touches the network. Every answer is derived from the
+ * input with fixed keyword rules, so the same conversation always produces the
+ * same questions, scores and summaries.
+ */
+export function createMockAI(): AIService {
+  return {
+    name: 'mock',
+
+    async generateQuestion({ messages, session, stage, rejectedQuestion, intervention }, onChunk, signal) {
+      const question = intervention
+        ? nextExerciseStep(intervention)
+        : pickFallbackQuestion(session, messages, stage, rejectedQuestion)
+      for (const word of question.split(/(?<= )/)) {
+        if (signal?.aborted) break
+        onChunk(word)
+      }
+      return { text: question }
+    },
+
+    async analyzeContext(messages, session) {
+      const answer = (answersOf(messages).pop() ?? '').toLowerCase()
+      const topics = topicsIn(answer)
+      const currentTopic = topics[0] ?? null
+      const words = answer.split(/\s+/).filter(Boolean).length
+      const specificity = words > 60 ? 3 : words > 30 ? 2 : words > 10 ? 1 : 0
+      const explored = currentTopic !== null && session.topicCoverage[currentTopic]?.explored
+
+      return {
+        topics,
+        currentTopic,
+        currentTopicSpecificity: specificity,
+        shouldMoveToNewTopic: Boolean(explored) || specificity >= 2,
+        suggestedNextTopic: getSessionTopics(session).find(t => !session.topicCoverage[t]?.mentioned && !topics.includes(t)) ?? null
+      }
+    },
+
+    async summarizeWeek({ reflections: allReflections }) {
+      const days = new Set(allReflections.map(r => r.date)).size
+      // Flagged sessions count towards the period but their words are not turned into bullets
+      const reflections = allReflections.filter(r => !r.sessionState?.safetyFlag)
+      const flagged = allReflections.length - reflections.length
+      return {
+        summaryText: `You reflected on ${days} ${days === 1 ? 'day' : 'days'} in this period across ${allReflections.length} ${allReflections.length === 1 ? 'session' : 'sessions'}.${flagged > 0 ? ' Some of it was really hard; look after yourself first.' : ''}`,
+        progressHighlights: pointsFrom(reflections, isProgress, 5),
+        challengesIdentified: pointsFrom(reflections, isChallenge, 4),
+        mentalBlocksAddressed: reflections.some(r => r.blockAnalysis)
+          ? detectedBlockPoints(reflections, 3)
+          : pointsFrom(reflections, isBlock, 3),
+        recommendations: [
+          ...(flagged > 0 ? [{ text: 'Make time to rest and talk to someone you trust or a support line.', sourceDates: [] }] : []),
+          { text: 'Pick one priority each morning and protect time for it.', sourceDates: [] },
+          { text: 'Talk to at least one customer before the next summary.', sourceDates: [] },
+          { text: 'Follow up on the commitments you made this period.', sourceDates: [] }
+        ]
+      }
+    },
+
+    async scoreReflection(reflection) {
+      const answers = answersOf(reflection.messages).join(' ').toLowerCase()
+      const wins = TOPIC_KEYWORDS.daily_progress.filter(k => answers.includes(k)).length
+      const setbacks = TOPIC_KEYWORDS.current_challenges.filter(k => answers.includes(k)).length
+      const blocks = TOPIC_KEYWORDS.mental_blocks.filter(k => answers.includes(k))
+
+      return {
+        progressScore: Math.max(0, Math.min(100, 50 + wins * 10 - setbacks * 5)),
+        progressRationale: `You mentioned ${wins} signs of progress and ${setbacks} challenges.`,
+        mentalBlocks: blocks,
+        keyInsights: answersOf(reflection.messages).flatMap(sentences).filter(isProgress).slice(0, 2),
+        mood: MOOD_KEYWORDS.find(([, keywords]) => includesAny(answers, keywords))?.[0] ?? 'neutral',
+        commitments: findCommitments(reflection.messages),
+        assessedAt: new Date().toISOString()
+      }
+    },
+
+    async writeWrapUp(messages, format, flagged) {
+      const answers = answersOf(messages)
+      const topics = [...new Set(answers.flatMap(a => topicsIn(a.toLowerCase())))]
+      const longest = answers.flatMap(sentences).reduce((best, s) => (s.length > best.length ? s : best), '')
+
+      // A flagged session is not mined for insights; only the founder's own next steps are kept
+      if (flagged) {
+        return {
+          recap: 'Thank you for being honest about how you are doing today. That took courage.',
+          topInsight: '',
+          commitments: findCommitments(messages),
+          format,
+          createdAt: new Date().toISOString()
+        }
+      }
+
+      return {
+        recap: `You answered ${answers.length} questions${topics.length ? `, touching on ${topics.map(t => t.replace(/_/g, ' ')).join(', ')}` : ''}.`,
+        topInsight: longest,
+        commitments: findCommitments(messages),
+        format,
+        createdAt: new Date().toISOString()
+      }
+    },
+
+    async inferOutcomes(commitments, answer) {
+      const outcomes: Record<string, CommitmentOutcome> = {}
+      const answerSentences = sentences(answer.toLowerCase())
+      for (const commitment of commitments) {
+        const words = commitment.text.toLowerCase().split(/\W+/).filter(w => w.length > 4)
+        const sentence = commitments.length === 1
+          ? answer.toLowerCase()
+          : answerSentences.find(s => words.some(w => s.includes(w)))
+        const outcome = sentence && OUTCOME_KEYWORDS.find(([, keywords]) => includesAny(sentence, keywords))?.[0]
+        if (outcome) outcomes[commitment.id] = outcome
+      }
+      return outcomes
+    },
+
+    async writeRetrospective({ summaries, reflections, profile }) {
+      return {
+        overview: `This period drew on ${summaries.length} ${summaries.length === 1 ? 'summary' : 'summaries'} and ${reflections.length} further ${reflections.length === 1 ? 'reflection' : 'reflections'}.`,
+        progressTrend: [...summaries.flatMap(s => s.progressHighlights.slice(0, 1)), ...pointsFrom(reflections, isProgress, 2)].slice(0, 5),
+        recurringBlocks: [...summaries.flatMap(s => s.mentalBlocksAddressed.slice(0, 1)), ...pointsFrom(reflections, isBlock, 2)].slice(0, 4),
+        goalMovement: (profile?.goals ?? []).map(goal => ({ text: `${goal}: no movement recorded offline`, sourceDates: [] }))
+      }
+    },
+
+    async detectBlocks(messages) {
+      const detections: BlockDetection[] = []
+      for (const message of messages.filter(m => m.role === 'user')) {
+        for (const sentence of sentences(message.content)) {
+          const lower = sentence.toLowerCase()
+          for (const [block, keywords] of Object.entries(BLOCK_KEYWORDS) as [MentalBlockId, string[]][]) {
+            const hits = keywords.filter(k => lower.includes(k)).length
+            if (hits > 0 && !detections.some(d => d.block === block && d.messageId === message.id)) {
+              detections.push({ block, messageId: message.id, evidence: sentence, intensity: Math.min(3, hits) })
+            }
+          }
+        }
+      }
+      return { detections, analyzedAt: new Date().toISOString() }
+    },
+
+    async summarizeIntervention(messages, intervention) {
+      const answers = answersOf(exerciseMessages(messages, intervention)).slice(1)
+      return {
+        insight: sentences(answers[answers.length - 1] ?? '')[0] ?? '',
+        nextStep: findCommitments(exerciseMessages(messages, intervention))[0],
+        completedAt: new Date().toISOString()
+      }
+    },
+
+    async checkDistress(answer) {
+      return screenForDistress(answer.content)
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { Intervention, ReflectionData } from '../storage'
+import { getMonthRange } from '../lib/dates'
+import { sessionTemplate } from '../lib/session-templates'
+import { EMPTY_ANALYSIS } from '../lib/topic-coverage'
+import { BLOCK_EXERCISES } from '../lib/interventions'
+import { PROMPT_REGISTRY, renderPrompt, type PromptId, type PromptInputs } from './prompts'
+import type { PromptFixture } from './fixtures'
+
+export const PROMPT_IDS = Object.keys(PROMPT_REGISTRY) as PromptId[]
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Wraps one of the founder's stored sessions so it can be reviewed like a fixture
+export function fixtureFromReflection(reflection: ReflectionData): PromptFixture {
+  return {
+    id: reflection.id,
+    description: `${sessionTemplate(reflection.sessionState ?? {}).name} on ${reflection.date}`,
+    reflection
+  }
+}
+
+/**
+ * Derives every prompt's input from one saved conversation. The question and
+ * analysis prompts see the conversation up to the founder's latest answer,
+ * as they would live.
+ */
+export function fixtureInputs({ reflection, profile, commitments = [] }: PromptFixture): PromptInputs {
+  const lastAnswer = reflection.messages.map(m => m.role).lastIndexOf('user')
+  const messages = lastAnswer >= 0 ? reflection.messages.slice(0, lastAnswer + 1) : reflection.messages
+  const session = reflection.sessionState ?? {
+    startTime: reflection.messages[0]?.timestamp ?? 0,
+    questionCount: messages.filter(m => m.role === 'user').length,
+    maxQuestions: sessionTemplate({}).maxQuestions,
+    isComplete: false,
+    topics: [],
+    topicCoverage: {},
+    currentFocus: null
+  }
+  // Fixtures without an exercise of their own get one triggered by the latest answer
+  const intervention: Intervention = session.interventions?.[0] ?? {
+    id: 'fixture',
+    block: 'fear_of_failure',
+    exercise: BLOCK_EXERCISES.fear_of_failure,
+    triggerMessageId: messages[messages.length - 1]?.id ?? '',
+    evidence: messages[messages.length - 1]?.content ?? '',
+    stepsAsked: 0,
+    status: 'active'
+  }
+  const month = getMonthRange(reflection.date)
+  const firstAnswer = reflection.messages.find(m => m.role === 'user')?.content ?? ''
+
+  return {
+    coach_question: { messages, session, analysis: EMPTY_ANALYSIS, stage: profile?.stage },
+    topic_analysis: { messages, session },
+    week_summary: { reflections: [reflection], startDate: reflection.date, endDate: reflection.date },
+    retrospective: {
+      period: 'month',
+      startDate: month.start,
+      endDate: month.end,
+      summaries: [],
+      reflections: [reflection],
+      profile: profile ?? null
+    },
+    assessment: reflection,
+    wrap_up: { messages: reflection.messages, format: sessionTemplate(session).wrapUpFormat, flagged: Boolean(session.safetyFlag) },
+    commitment_outcomes: { commitments, answer: firstAnswer },
+    block_detection: { messages: reflection.messages },
+    intervention_step: { messages, intervention },
+    intervention_outcome: { messages: reflection.messages, intervention },
+    distress_check: { answer: messages[messages.length - 1] ?? { id: 'fixture', role: 'user', content: '', timestamp: 0 } }
+  }
+}
+
+// Renders one prompt for a fixture at the given version, or the live one
+export function renderFixturePrompt<K extends PromptId>(fixture: PromptFixture, promptId: K, version?: number) {
+  return renderPrompt(promptId, fixtureInputs(fixture)[promptId], version)
+}
+
+/**
+ * Line diff between two renderings, so a prompt change can be reviewed the way
+ * a code change is. Uses a longest-common-subsequence table, which is plenty for
+ * prompts of a few hundred lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] })
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] })
+    } else {
+      lines.push({ kind: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] })
+  return lines
+}
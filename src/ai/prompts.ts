@@ -0,0 +1,494 @@
+import type {
+  Commitment,
+  Intervention,
+  Message,
+  ReflectionData,
+  SessionLength,
+  SessionState,
+  SummaryPoint,
+  WrapUpFormat
+} from '../storage'
+import { formatDateKey, formatDateRange } from '../lib/dates'
+import { periodOfRange } from '../lib/reporting-period'
+import { sessionTemplate } from '../lib/session-templates'
+import { activeMinutes } from '../lib/session-clock'
+import { MENTAL_BLOCKS, MENTAL_BLOCK_IDS } from '../lib/mental-blocks'
+import { EXERCISES, exerciseMessages } from '../lib/interventions'
+import { isClosingStretch, sessionBudget, sessionLength, wrapUpWindow } from '../lib/session-length'
+import { FORMAT_GUIDANCE } from '../lib/session-wrap-up'
+import { formatRetrospectivePeriod, isPartialSummary } from '../lib/retrospective'
+import {
+  TOPIC_IDS,
+  describeCoverage,
+  getOverCoveredTopics,
+  getSessionTopics,
+  getUntouchedTopics
+} from '../lib/topic-coverage'
+import type { QuestionRequest, RetrospectiveRequest, WeekSummaryRequest } from './types'
+
+export interface AnalysisInput {
+  messages: Message[]
+  session: SessionState
+}
+
+export interface WrapUpInput {
+  messages: Message[]
+  format: WrapUpFormat
+  flagged?: boolean // the session was flagged for acute distress
+}
+
+export interface BlockDetectionInput {
+  messages: Message[]
+}
+
+export interface InterventionInput {
+  messages: Message[]
+  intervention: Intervention
+}
+
+export interface DistressInput {
+  answer: Message
+}
+
+export interface OutcomesInput {
+  commitments: Commitment[]
+  answer: string
+}
+
+// What each prompt is rendered from
+export interface PromptInputs {
+  coach_question: QuestionRequest
+  topic_analysis: AnalysisInput
+  week_summary: WeekSummaryRequest
+  retrospective: RetrospectiveRequest
+  assessment: ReflectionData
+  wrap_up: WrapUpInput
+  commitment_outcomes: OutcomesInput
+  block_detection: BlockDetectionInput
+  intervention_step: InterventionInput
+  intervention_outcome: InterventionInput
+  distress_check: DistressInput
+}
+
+export type PromptId = keyof PromptInputs
+
+export interface PromptVersion<I> {
+  version: number
+  note: string // what changed in this version
+  render: (input: I) => string
+}
+
+const formatConversation = (messages: Message[]) => messages.map(m => `${m.role}: ${m.content}`).join('\n')
+
+// Detected blocks of a classified reflection, with the quote that showed each
+const formatDetections = (reflection: ReflectionData) => {
+  if (!reflection.blockAnalysis) return 'not classified'
+  return reflection.blockAnalysis.detections
+    .map(d => `${MENTAL_BLOCKS[d.block].label} ("${d.evidence}")`)
+    .join('; ') || 'none'
+}
+
+const formatPoints = (points: SummaryPoint[]) =>
+  points.map(p => `- ${p.text}${p.sourceDates.length ? ` [${p.sourceDates.join(', ')}]` : ''}`).join('\n') || '- (none)'
+
+// What sets the coach_question versions apart: how the session is sized, timed and paced
+interface QuestionPacing {
+  maxQuestions: number
+  maxMinutes: number
+  elapsedMinutes: number
+  pace?: string // guidance for the session length; versions before length modes have none
+  closing: string // when to start turning toward next steps
+}
+
+const renderQuestionPrompt = ({ messages, session, analysis, rejectedQuestion }: QuestionRequest, pacing: QuestionPacing) => {
+  const questionsRemaining = pacing.maxQuestions - session.questionCount
+  const overCovered = getOverCoveredTopics(session)
+  const untouched = getUntouchedTopics(session)
+  const template = sessionTemplate(session)
+  const moveOn = analysis.shouldMoveToNewTopic || (analysis.currentTopic !== null && overCovered.includes(analysis.currentTopic))
+
+  return `You are an AI coach for early-stage B2C founders conducting a focused "${template.name}" session of up to ${pacing.maxMinutes} minutes.${template.description ? ` Purpose: ${template.description}` : ''}
+
+SESSION CONTEXT:
+- Question ${session.questionCount + 1} of ${pacing.maxQuestions}
+- ${questionsRemaining} questions remaining
+- ${Math.round(pacing.elapsedMinutes)} minutes elapsed
+- Target: Complete within ${pacing.maxMinutes} minutes total${pacing.pace ? `
+- Pace: ${pacing.pace}` : ''}
+
+CONVERSATION ANALYSIS:
+- Topics covered this session: ${session.topics.join(', ') || 'none yet'}
+- Already explored in depth (do not return to these): ${overCovered.join(', ') || 'none'}
+- Not touched yet: ${untouched.join(', ') || 'none'}
+- Current topic as of the previous answer: ${analysis.currentTopic ?? 'unclear'}, specificity ${analysis.currentTopicSpecificity}/3 (3 = very specific)
+- Next focus: ${session.currentFocus ?? 'open'}
+
+CONVERSATION HISTORY:
+${messages.map(msg => `${msg.role}: ${msg.content}`).join('\\n')}
+
+CRITICAL INSTRUCTIONS:
+${moveOn ?
+  `MOVE TO NEW TOPIC: The current topic has been covered enough. Transition to exploring "${session.currentFocus}" instead of probing deeper on the current topic.` :
+  `CONTINUE CURRENT TOPIC: Current specificity is ${analysis.currentTopicSpecificity}/3. You can ask 1 more follow-up before moving on.`
+}
+
+Generate a single, focused question that:
+1. ${moveOn ? 'Transitions smoothly to a new topic area' : 'Builds naturally on what they\'ve shared'}
+2. Avoids repetitive probing - don't ask for more details if they've already been specific
+3. Helps explore progress, problems, or plans efficiently
+4. Is motivating and supportive
+5. Moves toward actionable insights
+
+IMPORTANT: If the founder has already given specific details about something, acknowledge it and move to a different area. Don't make them repeat themselves.
+
+${pacing.closing}
+${rejectedQuestion ? `\nThe founder asked for a different question than this one, so take another angle: "${rejectedQuestion}"\n` : ''}
+Keep it conversational and under 80 words.`
+}
+
+const wallClockMinutes = (session: SessionState) => (Date.now() - session.startTime) / (1000 * 60)
+
+// The template's limits on the wall clock, turning to next steps for the last two questions
+const questionPrompt = (request: QuestionRequest) => renderQuestionPrompt(request, {
+  maxQuestions: request.session.maxQuestions,
+  maxMinutes: sessionTemplate(request.session).maxMinutes,
+  elapsedMinutes: wallClockMinutes(request.session),
+  closing: 'If this is one of the last two questions, start guiding toward concrete next steps and wrap-up.'
+})
+
+// Pacing guidance for each session length, given to the question prompt
+const LENGTH_PACING: Record<SessionLength, string> = {
+  quick: 'Quick session. Skip warm-up, go straight to what matters most today and keep each question short.',
+  standard: 'Standard session. Balance depth with covering the main topics.',
+  deep_dive: 'Deep dive. The founder set time aside, so follow promising threads further and ask for specifics before moving on.'
+}
+
+// The budget the founder picked, with a closing stretch that scales with it
+const budgetedPacing = (session: SessionState, elapsedMinutes: number): QuestionPacing => {
+  const budget = sessionBudget(session)
+  return {
+    ...budget,
+    elapsedMinutes,
+    pace: LENGTH_PACING[sessionLength(session)],
+    closing: isClosingStretch(session)
+      ? 'This is the closing stretch of the session: guide toward concrete next steps and wrap-up.'
+      : `Keep exploring for now; the last ${wrapUpWindow(session)} of ${budget.maxQuestions} questions turn toward next steps.`
+  }
+}
+
+const budgetedQuestionPrompt = (request: QuestionRequest) =>
+  renderQuestionPrompt(request, budgetedPacing(request.session, wallClockMinutes(request.session)))
+
+// Counts only the minutes the clock ran, so a paused or idle session is not paced as if time ran out
+const activeTimeQuestionPrompt = (request: QuestionRequest) =>
+  renderQuestionPrompt(request, budgetedPacing(request.session, activeMinutes(request.session)))
+
+const weekSummaryPrompt = ({ reflections, startDate, endDate }: WeekSummaryRequest) => {
+  const periodName = periodOfRange(startDate, endDate) === 'sprint' ? 'two-week sprint' : 'week'
+
+  return `You are an AI coach analyzing a founder's reflection data for one ${periodName}. Based on the following daily reflections from ${formatDateKey(startDate, { dateStyle: 'medium' })} to ${formatDateKey(endDate, { dateStyle: 'medium' })}, generate a comprehensive ${periodName} summary.
+
+Reflection data:
+${reflections.map(r => `
+Date: ${r.date}
+Conversation: ${r.messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+`).join('\n---\n')}
+
+Generate a structured ${periodName} summary with:
+1. summaryText: overall progress summary (2-3 sentences)
+2. progressHighlights: key progress highlights (3-5 bullet points)
+3. challengesIdentified: main challenges identified (2-4 bullet points)
+4. mentalBlocksAddressed: mental blocks that came up and how they were addressed (0-3 bullet points; empty if none came up)
+5. recommendations: recommendations for the next ${periodName} (3-4 actionable items)
+
+Every bullet must list in sourceDates the reflection dates (exactly as written above, YYYY-MM-DD) whose conversation supports it. Only include points grounded in what the founder actually said.
+
+Keep it motivating, specific, and actionable. Focus on patterns and insights across the ${periodName}.`
+}
+
+const blockAwareWeekSummaryPrompt = ({ reflections, startDate, endDate }: WeekSummaryRequest) => {
+  const periodName = periodOfRange(startDate, endDate) === 'sprint' ? 'two-week sprint' : 'week'
+
+  return `You are an AI coach analyzing a founder's reflection data for one ${periodName}. Based on the following daily reflections from ${formatDateKey(startDate, { dateStyle: 'medium' })} to ${formatDateKey(endDate, { dateStyle: 'medium' })}, generate a comprehensive ${periodName} summary.
+
+Reflection data:
+${reflections.map(r => `
+Date: ${r.date}
+Conversation: ${r.messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+Detected mental blocks: ${formatDetections(r)}
+`).join('\n---\n')}
+
+Generate a structured ${periodName} summary with:
+1. summaryText: overall progress summary (2-3 sentences)
+2. progressHighlights: key progress highlights (3-5 bullet points)
+3. challengesIdentified: main challenges identified (2-4 bullet points)
+4. mentalBlocksAddressed: the detected mental blocks that mattered most, quoting the founder, and whether they eased or persisted (0-3 bullet points; empty if none were detected)
+5. recommendations: recommendations for the next ${periodName} (3-4 actionable items)
+
+Every bullet must list in sourceDates the reflection dates (exactly as written above, YYYY-MM-DD) whose conversation supports it. Only include points grounded in what the founder actually said.
+
+Keep it motivating, specific, and actionable. Focus on patterns and insights across the ${periodName}.`
+}
+
+// Sessions flagged for distress are named for the model, never quoted back as a problem to fix
+const careAwareWeekSummaryPrompt = (request: WeekSummaryRequest) => {
+  const flaggedDates = request.reflections.filter(r => r.sessionState?.safetyFlag).map(r => r.date)
+  if (flaggedDates.length === 0) return blockAwareWeekSummaryPrompt(request)
+  const periodName = periodOfRange(request.startDate, request.endDate) === 'sprint' ? 'two-week sprint' : 'week'
+
+  return `${blockAwareWeekSummaryPrompt(request)}
+
+CARE: The founder was in acute distress during the sessions on ${flaggedDates.join(', ')}. Handle them with care: acknowledge in summaryText, gently and without detail, that parts of the ${periodName} were very hard. Never quote, analyze or list the distress as a challenge or mental block to fix, and do not push for more output. Make the first recommendation about looking after themselves and reaching out to someone they trust or a support line. Keep the tone warm rather than motivating.`
+}
+
+const retrospectivePrompt = ({ period, startDate, endDate, summaries, reflections, profile }: RetrospectiveRequest) =>
+  `You are an AI coach writing a ${period === 'quarter' ? 'quarterly' : 'monthly'} retrospective for a founder, covering ${formatRetrospectivePeriod(period, startDate)} (${formatDateRange(startDate, endDate)}). The founder will use it to prepare board and investor updates.
+
+FOUNDER CONTEXT:
+- Company: ${profile?.companyName || 'Unknown'}
+- Stage: ${profile?.stage || 'Unknown'}
+- Goals: ${profile?.goals.join(', ') || 'None listed'}
+
+WEEKLY SUMMARIES (oldest first; bracketed dates are the reflections each point came from):
+${summaries.map(s => `
+${formatDateRange(s.weekStartDate, s.weekEndDate)}
+Overview: ${s.summaryText}
+Progress:
+${formatPoints(s.progressHighlights)}
+Challenges:
+${formatPoints(s.challengesIdentified)}
+Mental blocks:
+${formatPoints(s.mentalBlocksAddressed)}
+`).join('\n---\n') || '(none)'}
+
+REFLECTIONS NOT COVERED BY A SUMMARY:
+${reflections.map(r => `
+Date: ${r.date}
+Conversation: ${r.messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+`).join('\n---\n') || '(none)'}
+
+Write:
+1. overview: 3-4 sentences on how the period went overall
+2. progressTrend: 3-5 points on how progress developed over the period (accelerating, stalling, shifting focus)
+3. recurringBlocks: 0-4 mental blocks or challenges that came up repeatedly, and whether they eased; empty if none recurred
+4. goalMovement: one point per founder goal that saw movement (or notably none), stating the direction
+
+Every point must list in sourceDates the reflection dates (YYYY-MM-DD, as bracketed or listed above) that support it. Be concrete and honest; only use what the material shows.`
+
+// Weeks that run past the period only bring their in-period points; their overviews are context
+const periodAwareRetrospectivePrompt = (request: RetrospectiveRequest) => {
+  const partial = request.summaries.filter(s => isPartialSummary(s, request.startDate, request.endDate))
+  if (partial.length === 0) return retrospectivePrompt(request)
+
+  return `${retrospectivePrompt(request)}
+
+PARTIAL WEEKS: ${partial.map(s => formatDateRange(s.weekStartDate, s.weekEndDate)).join('; ')} only partly fall inside this period. Only their points dated inside it are listed, but their overviews also describe days outside it: use those overviews for context only and never report anything from outside ${formatDateRange(request.startDate, request.endDate)}.`
+}
+
+const assessmentPrompt = (reflection: ReflectionData) =>
+  `You are an AI coach assessing a founder's completed daily reflection from ${reflection.date}.
+
+CONVERSATION:
+${formatConversation(reflection.messages)}
+
+Assess only what the founder actually said:
+1. progressScore: 0-100, how much concrete forward progress they made toward their startup goals today (0 = none or went backwards, 50 = steady, 100 = major milestone)
+2. progressRationale: one or two sentences explaining the score, citing specifics
+3. mentalBlocks: short labels for mental blocks they showed (e.g. perfectionism, fear of selling); empty if none
+4. keyInsights: 1-3 insights worth remembering, phrased to the founder
+5. mood: their overall mood
+6. commitments: concrete actions they committed to for the coming days, in their words`
+
+const wrapUpPrompt = ({ messages, format }: WrapUpInput) => {
+  const guidance = FORMAT_GUIDANCE[format]
+
+  return `You are an AI coach closing a founder's ${guidance.session} session.
+
+CONVERSATION:
+${formatConversation(messages)}
+
+Write the wrap-up using only what the founder actually said:
+1. recap: 2-3 sentences ${guidance.recap}, addressed to them ("you")
+2. topInsight: the single most useful insight from the session, in one sentence
+3. commitments: 1-3 of ${guidance.commitments}, in their words where possible; empty if they named none`
+}
+
+const careWrapUpPrompt = ({ messages, format, flagged }: WrapUpInput) => {
+  const guidance = FORMAT_GUIDANCE[format]
+  if (!flagged) return wrapUpPrompt({ messages, format })
+
+  return `You are an AI coach closing a founder's ${guidance.session} session. During this session the founder said they were in acute distress and was shown support lines.
+
+CONVERSATION:
+${formatConversation(messages)}
+
+Write a gentle wrap-up using only what the founder actually said:
+1. recap: 2-3 warm sentences addressed to them ("you"), thanking them for their honesty and reflecting what they worked through. Do not quote, analyze or minimize what they said about their distress, and do not push productivity.
+2. topInsight: one kind, grounded sentence they can take with them; empty if nothing fits
+3. commitments: only actions they named themselves, in their words, putting any about rest or reaching out first; empty if they named none`
+}
+
+const distressPrompt = ({ answer }: DistressInput) =>
+  `You are a safety check inside a founder coaching app. Read the founder's latest answer and classify how much distress it shows.
+
+ANSWER:
+${answer.content}
+
+Classify the level:
+- "acute": thoughts of suicide, self-harm or not wanting to live, feeling unable to go on, or a crisis that needs support beyond coaching right now
+- "elevated": strong distress such as panic, hopelessness or being unable to cope, without signs of crisis
+- "none": ordinary stress, tiredness or frustration with the business
+
+When in doubt between "elevated" and "acute", choose "acute". Figures of speech about the business ("this launch is killing me") are not distress on their own.`
+
+const outcomesPrompt = ({ commitments, answer }: OutcomesInput) =>
+  `A founder was asked how their earlier commitments went.
+
+COMMITMENTS:
+${commitments.map(c => `${c.id}: ${c.text}`).join('\n')}
+
+FOUNDER'S ANSWER:
+${answer}
+
+For each commitment, classify the outcome as "done", "partial" (some progress but not finished), "dropped" (abandoned or deliberately deprioritized) or "unclear" (the answer does not say).`
+
+const blockDetectionPrompt = ({ messages }: BlockDetectionInput) =>
+  `You are an AI coach spotting mental blocks in a founder's reflection session.
+
+MENTAL BLOCKS:
+${MENTAL_BLOCK_IDS.map(id => `${id}: ${MENTAL_BLOCKS[id].description}`).join('\n')}
+
+FOUNDER'S ANSWERS (id: text):
+${messages.filter(m => m.role === 'user').map(m => `${m.id}: ${m.content}`).join('\n')}
+
+For each answer that shows one of the blocks above, return a detection with:
+1. block: the block id
+2. messageId: the id of the answer
+3. evidence: the words that show it, quoted exactly from the answer (one sentence or less)
+4. intensity: 1 = passing mention, 2 = clearly holding them back, 3 = dominating their thinking
+
+Only flag what the founder actually expressed; ordinary challenges are not blocks. An answer can show more than one block. Return an empty list if none show.`
+
+const interventionStepPrompt = ({ messages, intervention }: InterventionInput) => {
+  const exercise = EXERCISES[intervention.exercise]
+  const isFirst = intervention.stepsAsked === 0
+
+  return `You are an AI coach running a short "${exercise.name}" exercise with a founder inside their reflection session, because they showed ${MENTAL_BLOCKS[intervention.block].label.toLowerCase()}: "${intervention.evidence}"
+
+EXERCISE: ${exercise.description}
+STEPS:
+${exercise.steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}
+
+CONVERSATION SO FAR:
+${formatConversation(messages)}
+
+Ask step ${intervention.stepsAsked + 1} of ${exercise.steps.length}, adapted to what the founder has said. ${isFirst
+  ? 'This is the start of the exercise: briefly acknowledge what they shared and say you want to try a quick exercise, without naming the block as a diagnosis.'
+  : 'Build on their answer to the previous step in a few words before asking.'}
+
+Ask one question only. Keep it warm, direct and under 60 words.`
+}
+
+const interventionOutcomePrompt = ({ messages, intervention }: InterventionInput) =>
+  `A founder just finished a short "${EXERCISES[intervention.exercise].name}" exercise with their coach, started because they showed ${MENTAL_BLOCKS[intervention.block].label.toLowerCase()}.
+
+EXERCISE CONVERSATION:
+${formatConversation(exerciseMessages(messages, intervention))}
+
+Using only what the founder said:
+1. insight: what they concluded or saw differently by the end, in one sentence addressed to them ("you")
+2. nextStep: the concrete action they named, in their words; empty if they named none`
+
+// A flagged session carries on only when the founder chose to; the coach then goes gently
+const careAwareQuestionPrompt = (request: QuestionRequest) => request.session.safetyFlag
+  ? `${activeTimeQuestionPrompt(request)}
+
+CARE: Earlier in this session the founder said they were in acute distress and chose to keep reflecting after seeing support lines. Be gentle, follow their lead, do not probe into the distress, and do not push productivity.`
+  : activeTimeQuestionPrompt(request)
+
+const analysisPrompt = ({ messages, session }: AnalysisInput) => {
+  const recentMessages = messages.slice(-4) // Analyze last 4 messages
+
+  return `Analyze this founder reflection conversation to determine topic coverage and specificity.
+
+COVERAGE SO FAR THIS SESSION:
+${describeCoverage(session)}
+
+LATEST EXCHANGE:
+${formatConversation(recentMessages)}
+
+Evaluate:
+1. topics: which core topics the latest exchange touched
+2. currentTopic: the main topic of the founder's latest answer
+3. currentTopicSpecificity: how specific/detailed that discussion is now (0-3 scale)
+4. shouldMoveToNewTopic: whether the founder is repeating themselves, the coach is over-probing, or the topic is already explored
+5. suggestedNextTopic: the most useful topic to explore next, preferring ones not yet covered this session
+
+Core topics: ${TOPIC_IDS.join(', ')}
+This session focuses on: ${getSessionTopics(session).join(', ')} (suggest only from these)`
+}
+
+
+/**
+ * Every version of every prompt, oldest first; the last one is live. Add a new
+ * version instead of editing a shipped one, so stored turns keep pointing at
+ * the text that produced them and the prompt review can compare the two.
+ */
+export const PROMPT_REGISTRY: { [K in PromptId]: PromptVersion<PromptInputs[K]>[] } = {
+  coach_question: [
+    { version: 1, note: 'Next coaching question from topic coverage and the previous analysis', render: questionPrompt },
+    { version: 2, note: 'Paces questions to the session length budget instead of the template limits', render: budgetedQuestionPrompt },
+    { version: 3, note: 'Counts active minutes, leaving out pauses and idle time', render: activeTimeQuestionPrompt },
+    { version: 4, note: 'Goes gently once the session was flagged for distress', render: careAwareQuestionPrompt }
+  ],
+  topic_analysis: [
+    { version: 1, note: 'Classifies the latest exchange against the core topics', render: analysisPrompt }
+  ],
+  week_summary: [
+    { version: 1, note: 'Weekly or sprint summary with cited bullets', render: weekSummaryPrompt },
+    { version: 2, note: 'Grounds the mental blocks section in detected blocks and their quotes', render: blockAwareWeekSummaryPrompt },
+    { version: 3, note: 'Handles sessions flagged for distress with care', render: careAwareWeekSummaryPrompt }
+  ],
+  retrospective: [
+    { version: 1, note: 'Monthly or quarterly rollup of summaries', render: retrospectivePrompt },
+    { version: 2, note: 'Keeps weeks that straddle the period to the days inside it', render: periodAwareRetrospectivePrompt }
+  ],
+  assessment: [
+    { version: 1, note: 'Progress score, blocks, insights, mood and commitments', render: assessmentPrompt }
+  ],
+  wrap_up: [
+    { version: 1, note: 'End-of-session recap in the template\'s wrap-up format', render: wrapUpPrompt },
+    { version: 2, note: 'Gentle recap for sessions flagged for distress', render: careWrapUpPrompt }
+  ],
+  commitment_outcomes: [
+    { version: 1, note: 'Outcomes of earlier commitments from a follow-up answer', render: outcomesPrompt }
+  ],
+  block_detection: [
+    { version: 1, note: 'Classifies answers against the mental block taxonomy with quoted evidence', render: blockDetectionPrompt }
+  ],
+  intervention_step: [
+    { version: 1, note: 'Next step of a structured exercise, adapted to the conversation', render: interventionStepPrompt }
+  ],
+  intervention_outcome: [
+    { version: 1, note: 'What the founder took away from an exercise', render: interventionOutcomePrompt }
+  ],
+  distress_check: [
+    { version: 1, note: 'Classifies an answer for distress so acute cases pause the coaching', render: distressPrompt }
+  ]
+}
+
+// Stored on assistant turns and wrap-ups, e.g. "coach_question@v1"
+export const promptVersionLabel = (id: PromptId, version: number) => `${id}@v${version}`
+
+export function latestPromptVersion(id: PromptId) {
+  const versions = PROMPT_REGISTRY[id]
+  return versions[versions.length - 1].version
+}
+
+// Renders a prompt at the given version, or the live one
+export function renderPrompt<K extends PromptId>(id: K, input: PromptInputs[K], version?: number) {
+  const versions: PromptVersion<PromptInputs[K]>[] = PROMPT_REGISTRY[id]
+  const entry = version === undefined ? versions[versions.length - 1] : versions.find(v => v.version === version)
+  if (!entry) throw new Error(`Unknown prompt version ${promptVersionLabel(id, version ?? 0)}`)
+  return { text: entry.render(input), label: promptVersionLabel(id, entry.version) }
+}
@@ -0,0 +1,70 @@
+import type {
+  Commitment,
+  DistressLevel,
+  FounderProfile,
+  Intervention,
+  InterventionOutcome,
+  MentalBlockAnalysis,
+  Message,
+  ReflectionAssessment,
+  ReflectionData,
+  RetrospectiveContent,
+  RetrospectivePeriod,
+  SessionState,
+  SessionWrapUp,
+  WeeklySummary,
+  WeeklySummaryContent,
+  WrapUpFormat
+} from '../storage'
+import type { ConversationAnalysis } from '../lib/topic-coverage'
+import type { CommitmentOutcome } from '../lib/commitments'
+
+export type AIProviderName = 'blink' | 'mock'
+
+export interface QuestionRequest {
+  messages: Message[]
+  session: SessionState // with questionCount already counting the latest answer
+  analysis: ConversationAnalysis
+  stage?: string // founder stage from the profile
+  rejectedQuestion?: string // a question the founder asked to replace
+  intervention?: Intervention // set while an exercise runs; its stepsAsked is the step to ask now
+}
+
+export interface GeneratedQuestion {
+  text: string
+  promptVersion?: string // registry label of the prompt that produced it; absent when no prompt was used
+}
+
+export interface WeekSummaryRequest {
+  reflections: ReflectionData[]
+  startDate: string
+  endDate: string
+}
+
+export interface RetrospectiveRequest {
+  period: RetrospectivePeriod
+  startDate: string
+  endDate: string
+  summaries: WeeklySummary[]
+  reflections: ReflectionData[]
+  profile: FounderProfile | null
+}
+
+/**
+ * Everything the app asks of a language model. Implementations return
+ * validated domain objects and throw when no usable answer comes back; the
+ * callers in lib decide on fallbacks.
+ */
+export interface AIService {
+  readonly name: AIProviderName
+  generateQuestion(request: QuestionRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<GeneratedQuestion>
+  analyzeContext(messages: Message[], session: SessionState): Promise<ConversationAnalysis>
+  summarizeWeek(request: WeekSummaryRequest): Promise<WeeklySummaryContent>
+  scoreReflection(reflection: ReflectionData): Promise<ReflectionAssessment>
+  writeWrapUp(messages: Message[], format: WrapUpFormat, flagged?: boolean): Promise<SessionWrapUp>
+  inferOutcomes(commitments: Commitment[], answer: string): Promise<Record<string, CommitmentOutcome>>
+  writeRetrospective(request: RetrospectiveRequest): Promise<RetrospectiveContent>
+  detectBlocks(messages: Message[]): Promise<MentalBlockAnalysis>
+  summarizeIntervention(messages: Message[], intervention: Intervention): Promise<InterventionOutcome>
+  checkDistress(answer: Message): Promise<DistressLevel>
+}
@@ -0,0 +1,24 @@
+import { TrendingDown, TrendingUp, Minus } from 'lucide-react'
+import { Badge } from './ui/badge'
+import { BLOCK_TRENDS, type BlockTrend } from '../lib/mental-blocks'
+
+interface BlockTrendBadgeProps {
+  trend: BlockTrend
+}
+
+// Green when a block is easing, red when it is showing up more often or more strongly
+export function BlockTrendBadge({ trend }: BlockTrendBadgeProps) {
+  const Icon = trend === 'improving' ? TrendingDown : trend === 'worsening' ? TrendingUp : Minus
+  const color = trend === 'improving'
+    ? 'text-green-600 border-green-600/30'
+    : trend === 'worsening'
+      ? 'text-red-600 border-red-600/30'
+      : 'text-muted-foreground'
+
+  return (
+    <Badge variant="outline" className={`flex items-center space-x-1 ${color}`}>
+      <Icon className="h-3 w-3" />
+      <span>{BLOCK_TRENDS[trend]}</span>
+    </Badge>
+  )
+}
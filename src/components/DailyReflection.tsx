@@ -1,56 +1,164 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { Send, Sparkles, Calendar, Clock, Target } from 'lucide-react'
-import { blink } from '../blink/client'
+import { Send, Sparkles, Calendar, Clock, Target, ListChecks, Plus, Trash2, Pencil, RefreshCw, Undo2, Pause, Play, X } from 'lucide-react'
+import { getAI } from '../ai'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
 import { useToast } from '../hooks/use-toast'
-
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: number
-}
-
-interface SessionState {
-  startTime: number
-  questionCount: number
-  maxQuestions: number
-  isComplete: boolean
-  topics: string[]
-  topicCoverage: {
-    [key: string]: {
-      mentioned: boolean
-      explored: boolean
-      specificity: number // 0-3 scale
-      lastQuestionIndex: number
-    }
-  }
-  currentFocus: string | null
-}
+import { useTimeZone } from '../hooks/use-time-zone'
+import { useSupportRegion } from '../hooks/use-support-region'
+import { formatDateKey, formatInstant, todayKey } from '../lib/dates'
+import {
+  commitmentRepository,
+  profileRepository,
+  reflectionRepository,
+  type Commitment,
+  type Intervention,
+  type Message,
+  type ReflectionData,
+  type SessionLength,
+  type SessionState,
+  type SessionTemplate,
+  type SessionWrapUp,
+  type WellbeingScores
+} from '../storage'
+import { ensureAssessment } from '../lib/reflection-assessment'
+import { MENTAL_BLOCKS, ensureBlockDetection } from '../lib/mental-blocks'
+import {
+  EXERCISES,
+  activeIntervention,
+  canStartIntervention,
+  completeIntervention,
+  detectAnswerBlocks,
+  isExerciseAnswered,
+  nextExerciseStep,
+  pickIntervention,
+  recordStepAsked,
+  skipIntervention,
+  startIntervention,
+  writeExerciseOutcome
+} from '../lib/interventions'
+import {
+  SUPPORT_CLOSING_MESSAGE,
+  SUPPORT_MESSAGE,
+  acknowledgeSafetyFlag,
+  checkForDistress,
+  flagSession,
+  isSafetyHold,
+  screenForDistress
+} from '../lib/safety'
+import { SupportResourcesCard } from './SupportResourcesCard'
+import { WellbeingSliders } from './WellbeingSliders'
+import { DEFAULT_WELLBEING, recordCheckIn, saveEndCheckIn } from '../lib/wellbeing'
+import { FALLBACK_CLOSING_MESSAGE, formatWrapUpMessage, generateWrapUp } from '../lib/session-wrap-up'
+import {
+  COMMITMENT_OUTCOMES,
+  buildFollowUpOpening,
+  captureCommitments,
+  inferOutcomes,
+  recordOutcomes,
+  takeFollowUps,
+  type CommitmentOutcome
+} from '../lib/commitments'
+import { SessionWrapUpCard } from './SessionWrapUpCard'
+import { TopicCoverageStrip } from './TopicCoverageStrip'
+import { SessionTemplateDialog } from './SessionTemplateDialog'
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  deleteCustomTemplate,
+  listTemplates,
+  saveCustomTemplate,
+  sessionTemplate
+} from '../lib/session-templates'
+import { pickFallbackQuestion } from '../lib/question-bank'
+import {
+  DEFAULT_SESSION_LENGTH,
+  SESSION_LENGTHS,
+  budgetFor,
+  describeBudget,
+  isBudgetSpent,
+  saveSessionLength,
+  sessionBudget
+} from '../lib/session-length'
+import { lastUserMessageIndex, rewindSession, withCheckpoint } from '../lib/session-rewind'
+import {
+  IDLE_MINUTES,
+  abandonSession,
+  activeMinutes,
+  isClockRunning,
+  isSessionAbandoned,
+  isSessionPaused,
+  pauseSession,
+  resumeSession,
+  startClock,
+  stopClock
+} from '../lib/session-clock'
+import {
+  EMPTY_ANALYSIS,
+  analyzeConversationContext,
+  mergeAnalysis,
+  type ConversationAnalysis
+} from '../lib/topic-coverage'
 
 interface DailyReflectionProps {
   user: any
 }
 
+const EMPTY_SESSION: SessionState = {
+  startTime: 0,
+  questionCount: 0,
+  maxQuestions: BUILT_IN_TEMPLATES[0].maxQuestions,
+  isComplete: false,
+  topics: [],
+  topicCoverage: {},
+  currentFocus: null
+}
+
 export function DailyReflection({ user }: DailyReflectionProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [todayDate] = useState(new Date().toISOString().split('T')[0])
+  const [isStreaming, setIsStreaming] = useState(false)
+  const timeZone = useTimeZone(user?.id)
+  const supportRegion = useSupportRegion(user?.id)
+  // Read on every render so an app left open past midnight files the next session under the new day
+  const todayDate = todayKey(timeZone)
   const [hasStarted, setHasStarted] = useState(false)
-  const [sessionState, setSessionState] = useState<SessionState>({
-    startTime: 0,
-    questionCount: 0,
-    maxQuestions: 5,
-    isComplete: false,
-    topics: [],
-    topicCoverage: {},
-    currentFocus: null
-  })
+  const [sessionId, setSessionId] = useState('')
+  const [sessionState, setSessionState] = useState<SessionState>(EMPTY_SESSION)
+  const [completedToday, setCompletedToday] = useState(0)
+  const [wrapUp, setWrapUp] = useState<SessionWrapUp | null>(null)
+  const [commitments, setCommitments] = useState<Commitment[]>([])
+  const [templates, setTemplates] = useState<SessionTemplate[]>(BUILT_IN_TEMPLATES)
+  const [selectedTemplateId, setSelectedTemplateId] = useState(DEFAULT_TEMPLATE_ID)
+  const [selectedLength, setSelectedLength] = useState<SessionLength>(DEFAULT_SESSION_LENGTH)
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
+  const [founderStage, setFounderStage] = useState<string | undefined>()
+  const [editing, setEditing] = useState<{ index: number, text: string } | null>(null)
   const [currentTime, setCurrentTime] = useState(Date.now())
+  const [confirmAbandon, setConfirmAbandon] = useState(false)
+  // Null until the founder moves a slider or confirms the scores, so an untouched check-in is never saved
+  const [startCheckIn, setStartCheckIn] = useState<WellbeingScores | null>(null)
+  const [endCheckIn, setEndCheckIn] = useState<WellbeingScores>(DEFAULT_WELLBEING)
+  const [endCheckInSkipped, setEndCheckInSkipped] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const streamAbortRef = useRef<AbortController | null>(null)
+  // The latest finished topic analysis; the next question is written from it while the new one runs
+  const lastAnalysisRef = useRef<ConversationAnalysis | null>(null)
+  // When the founder last typed or got a reply; the idle pause is backdated to it
+  const lastActivityRef = useRef(Date.now())
   const { toast } = useToast()
 
   const scrollToBottom = () => {
@@ -61,18 +169,26 @@ export function DailyReflection({ user }: DailyReflectionProps) {
     scrollToBottom()
   }, [messages])
 
+  // Resumes today's unfinished session, if any; finished ones only count towards the day
   const loadTodaysReflection = useCallback(async () => {
     if (!user?.id) return
     try {
-      // For now, we'll use localStorage as a fallback until database is available
-      const savedReflection = localStorage.getItem(`reflection_${user.id}_${todayDate}`)
-      if (savedReflection) {
-        const data = JSON.parse(savedReflection)
-        setMessages(data.messages || [])
-        setHasStarted(data.messages?.length > 0)
+      const sessions = await reflectionRepository.listByDate(user.id, todayDate)
+      setCompletedToday(sessions.filter(s => s.sessionState?.isComplete).length)
+      const data = sessions[sessions.length - 1]
+      if (data && !data.sessionState?.isComplete && !isSessionAbandoned(data.sessionState ?? EMPTY_SESSION) && data.messages?.length > 0) {
+        setSessionId(data.id)
+        setMessages(data.messages)
+        setHasStarted(true)
         if (data.sessionState) {
-          setSessionState(data.sessionState)
+          // A session left running while the app was closed stopped counting at its last save
+          const leftRunning = isClockRunning(data.sessionState) && Date.now() - data.updatedAt >= IDLE_MINUTES * 60000
+          const restored = leftRunning ? pauseSession(data.sessionState, data.updatedAt, 'idle') : data.sessionState
+          setSessionState(restored)
+          if (leftRunning) await reflectionRepository.save({ ...data, sessionState: restored })
         }
+        setWrapUp(data.wrapUp ?? null)
+        lastActivityRef.current = Date.now()
       }
     } catch (error) {
       console.error('Error loading reflection:', error)
@@ -83,261 +199,490 @@ export function DailyReflection({ user }: DailyReflectionProps) {
     loadTodaysReflection()
   }, [loadTodaysReflection])
 
-  // Update timer every minute when session is active
+  const loadCommitments = useCallback(async () => {
+    if (!user?.id) return
+    setCommitments(await commitmentRepository.list(user.id))
+  }, [user?.id])
+
   useEffect(() => {
-    if (!hasStarted || sessionState.isComplete) return
+    loadCommitments()
+    if (!user?.id) return
+    return commitmentRepository.subscribe(user.id, loadCommitments)
+  }, [user?.id, loadCommitments])
 
-    const interval = setInterval(() => {
-      setCurrentTime(Date.now())
-    }, 60000) // Update every minute
+  const loadTemplates = useCallback(async () => {
+    if (!user?.id) return
+    const profile = await profileRepository.get(user.id)
+    setTemplates(listTemplates(profile))
+    setFounderStage(profile?.stage)
+    setSelectedLength(profile?.sessionLength ?? DEFAULT_SESSION_LENGTH)
+  }, [user?.id])
 
-    return () => clearInterval(interval)
-  }, [hasStarted, sessionState.isComplete])
+  useEffect(() => {
+    loadTemplates()
+    if (!user?.id) return
+    return profileRepository.subscribe(user.id, loadTemplates)
+  }, [user?.id, loadTemplates])
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) ?? BUILT_IN_TEMPLATES[0]
+  const selectedBudget = budgetFor(selectedTemplate, selectedLength)
+  const activeTemplate = sessionTemplate(sessionState)
+  const activeBudget = sessionBudget(sessionState)
+  const runningExercise = activeIntervention(sessionState)
 
-  const saveReflection = async (newMessages: Message[], newSessionState?: SessionState) => {
+  // The chosen length is remembered as the founder's default for next time
+  const chooseLength = async (length: SessionLength) => {
+    setSelectedLength(length)
     try {
-      const reflectionData = {
-        messages: newMessages,
-        sessionState: newSessionState || sessionState,
-        date: todayDate,
-        userId: user.id,
-        updatedAt: Date.now()
-      }
-      
-      // Save to localStorage as fallback
-      localStorage.setItem(`reflection_${user.id}_${todayDate}`, JSON.stringify(reflectionData))
-      
-      // TODO: Save to database when available
-      // await blink.db.reflections.upsert({
-      //   id: `${user.id}_${todayDate}`,
-      //   userId: user.id,
-      //   date: todayDate,
-      //   messages: JSON.stringify(newMessages),
-      //   sessionState: JSON.stringify(newSessionState || sessionState),
-      //   updatedAt: new Date().toISOString()
-      // })
+      await saveSessionLength(user.id, length)
     } catch (error) {
-      console.error('Error saving reflection:', error)
+      console.error('Error saving session length:', error)
     }
   }
 
-  const analyzeConversationContext = async (messages: Message[]): Promise<{
-    topics: string[]
-    currentTopicSpecificity: number
-    shouldMoveToNewTopic: boolean
-    suggestedNextTopic: string | null
-  }> => {
-    if (messages.length < 2) {
-      return {
-        topics: [],
-        currentTopicSpecificity: 0,
-        shouldMoveToNewTopic: false,
-        suggestedNextTopic: null
-      }
+  const removeTemplate = async (templateId: string) => {
+    try {
+      await deleteCustomTemplate(user.id, templateId)
+      if (selectedTemplateId === templateId) setSelectedTemplateId(DEFAULT_TEMPLATE_ID)
+    } catch (error) {
+      console.error('Error deleting template:', error)
     }
+  }
 
-    const recentMessages = messages.slice(-4) // Analyze last 4 messages
-    const conversationText = recentMessages.map(m => `${m.role}: ${m.content}`).join('\\n')
+  // Earlier commitments this session is following up on
+  const followUps = commitments.filter(c => sessionState.followUpCommitmentIds?.includes(c.id))
 
+  const markOutcome = async (commitment: Commitment, outcome: CommitmentOutcome) => {
     try {
-      const { object } = await blink.ai.generateObject({
-        prompt: `Analyze this founder reflection conversation to determine topic coverage and specificity:
-
-${conversationText}
-
-Evaluate:
-1. What specific topics are being discussed (progress, challenges, plans, goals, etc.)
-2. How specific/detailed is the current topic discussion (0-3 scale)
-3. Whether the founder is repeating themselves or the AI is over-probing
-4. What new topic should be explored next
-
-Core topics to track: daily_progress, current_challenges, immediate_plans, goals_status, mental_blocks, team_issues, product_development, customer_feedback, funding, personal_wellbeing`,
-        schema: {
-          type: 'object',
-          properties: {
-            topics: {
-              type: 'array',
-              items: { type: 'string' }
-            },
-            currentTopicSpecificity: {
-              type: 'number',
-              minimum: 0,
-              maximum: 3
-            },
-            shouldMoveToNewTopic: {
-              type: 'boolean'
-            },
-            suggestedNextTopic: {
-              type: 'string'
-            }
-          },
-          required: ['topics', 'currentTopicSpecificity', 'shouldMoveToNewTopic', 'suggestedNextTopic']
-        }
-      })
-
-      return object
+      await recordOutcomes(user.id, [commitment], { [commitment.id]: outcome }, todayDate)
     } catch (error) {
-      console.error('Error analyzing conversation:', error)
-      return {
-        topics: [],
-        currentTopicSpecificity: 1,
-        shouldMoveToNewTopic: false,
-        suggestedNextTopic: null
-      }
+      console.error('Error recording commitment outcome:', error)
     }
   }
 
-  const shouldEndSession = (currentSession: SessionState, elapsedMinutes: number) => {
-    return (
-      currentSession.questionCount >= currentSession.maxQuestions ||
-      elapsedMinutes >= 20 ||
-      currentSession.isComplete
-    )
+  // Fills in outcomes from the founder's answer, leaving any already marked by hand alone
+  const inferFollowUpOutcomes = async (answer: string, followUpIds: string[]) => {
+    const open = (await commitmentRepository.listOpen(user.id)).filter(c => followUpIds.includes(c.id))
+    if (open.length === 0) return
+    const outcomes = await inferOutcomes(open, answer)
+    const stillOpen = (await commitmentRepository.listOpen(user.id)).filter(c => outcomes[c.id])
+    await recordOutcomes(user.id, stillOpen, outcomes, todayDate)
   }
 
-  const generateContextualQuestion = async (conversationHistory: Message[], currentSession: SessionState) => {
-    const elapsedMinutes = (Date.now() - currentSession.startTime) / (1000 * 60)
-    const questionsRemaining = currentSession.maxQuestions - currentSession.questionCount
-    
-    // Check if we should wrap up the session
-    if (shouldEndSession(currentSession, elapsedMinutes)) {
-      return `Thank you for taking time to reflect today! You've covered some important ground. 
-
-Based on our conversation, here's what I'm hearing:
-- You're making progress on your startup journey
-- You have clear next steps to focus on
-
-Remember: consistent daily reflection, even just 15-20 minutes, builds momentum over time. 
+  // Update timer every minute when session is active
+  useEffect(() => {
+    if (!hasStarted || sessionState.isComplete) return
 
-Your reflection is complete for today. See you tomorrow! 🚀`
-    }
+    const interval = setInterval(() => {
+      setCurrentTime(Date.now())
+    }, 60000) // Update every minute
 
-    // Analyze conversation context to avoid repetitive probing
-    const analysis = await analyzeConversationContext(conversationHistory)
-    
-    const contextPrompt = `You are an AI coach for early-stage B2C founders conducting a focused 15-20 minute daily reflection session.
-
-SESSION CONTEXT:
-- Question ${currentSession.questionCount + 1} of ${currentSession.maxQuestions}
-- ${questionsRemaining} questions remaining
-- ${Math.round(elapsedMinutes)} minutes elapsed
-- Target: Complete in 15-20 minutes total
-
-CONVERSATION ANALYSIS:
-- Current topics covered: ${analysis.topics.join(', ')}
-- Current topic specificity: ${analysis.currentTopicSpecificity}/3 (3 = very specific)
-- Should move to new topic: ${analysis.shouldMoveToNewTopic}
-- Suggested next topic: ${analysis.suggestedNextTopic}
-
-CONVERSATION HISTORY:
-${conversationHistory.map(msg => `${msg.role}: ${msg.content}`).join('\\n')}
-
-CRITICAL INSTRUCTIONS:
-${analysis.shouldMoveToNewTopic ? 
-  `MOVE TO NEW TOPIC: The current topic has sufficient specificity (${analysis.currentTopicSpecificity}/3). Transition to exploring "${analysis.suggestedNextTopic}" instead of probing deeper on the current topic.` :
-  `CONTINUE CURRENT TOPIC: Current specificity is ${analysis.currentTopicSpecificity}/3. You can ask 1 more follow-up before moving on.`
-}
+    return () => clearInterval(interval)
+  }, [hasStarted, sessionState.isComplete])
 
-Generate a single, focused question that:
-1. ${analysis.shouldMoveToNewTopic ? 'Transitions smoothly to a new topic area' : 'Builds naturally on what they\'ve shared'}
-2. Avoids repetitive probing - don't ask for more details if they've already been specific
-3. Helps explore progress, problems, or plans efficiently
-4. Is motivating and supportive
-5. Moves toward actionable insights
+  // Stops the clock once the founder has gone quiet, counting only up to their last activity
+  useEffect(() => {
+    if (!hasStarted || sessionState.isComplete || isLoading || !isClockRunning(sessionState)) return
+    if (currentTime - lastActivityRef.current < IDLE_MINUTES * 60000) return
 
-IMPORTANT: If the founder has already given specific details about something, acknowledge it and move to a different area. Don't make them repeat themselves.
+    const idleSession = pauseSession(sessionState, lastActivityRef.current, 'idle')
+    setSessionState(idleSession)
+    reflectionRepository.get(user.id, sessionId)
+      .then(latest => reflectionRepository.save({
+        ...latest,
+        id: sessionId,
+        messages,
+        sessionState: idleSession,
+        date: latest?.date ?? todayDate,
+        userId: user.id,
+        updatedAt: Date.now()
+      }))
+      .catch(error => console.error('Error saving reflection:', error))
+  }, [currentTime, hasStarted, isLoading, sessionState, sessionId, messages, todayDate, user?.id])
 
-If this is question 4 or 5, start guiding toward concrete next steps and wrap-up.
+  /**
+   * Saves onto the stored reflection, so an assessment, block analysis or
+   * wrap-up saved since is kept. A session stays on the day it started, even
+   * when it runs past midnight.
+   */
+  const saveReflection = async (id: string, newMessages: Message[], newSessionState?: SessionState, newWrapUp?: SessionWrapUp) => {
+    let reflectionData: ReflectionData = {
+      id,
+      messages: newMessages,
+      sessionState: newSessionState || sessionState,
+      wrapUp: newWrapUp,
+      date: todayKey(timeZone),
+      userId: user.id,
+      updatedAt: Date.now()
+    }
+    try {
+      const latest = await reflectionRepository.get(user.id, id)
+      reflectionData = { ...latest, ...reflectionData, date: latest?.date ?? reflectionData.date, wrapUp: newWrapUp ?? latest?.wrapUp }
+      await reflectionRepository.save(reflectionData)
+    } catch (error) {
+      console.error('Error saving reflection:', error)
+    }
+    return reflectionData
+  }
 
-Keep it conversational and under 80 words.`
+  const shouldEndSession = (currentSession: SessionState) => {
+    return currentSession.isComplete || isBudgetSpent(currentSession)
+  }
 
+  /**
+   * Streams the coach's next question through onChunk. The topic analysis of the
+   * latest answer runs alongside, so the prompt relies on the coverage and
+   * analysis from the previous turn and lets the model read the newest answer itself.
+   */
+  const generateContextualQuestion = async (
+    conversationHistory: Message[],
+    currentSession: SessionState,
+    analysis: ConversationAnalysis,
+    onChunk: (chunk: string) => void,
+    signal: AbortSignal,
+    rejectedQuestion?: string,
+    intervention?: Intervention
+  ): Promise<Pick<Message, 'content' | 'promptVersion'>> => {
     try {
-      const { text } = await blink.ai.generateText({
-        prompt: contextPrompt,
-        model: 'gpt-4o-mini',
-        maxTokens: 120
-      })
-      return text
+      const question = await getAI().generateQuestion({
+        messages: conversationHistory,
+        session: currentSession,
+        analysis,
+        stage: founderStage,
+        rejectedQuestion,
+        intervention
+      }, onChunk, signal)
+      return { content: question.text, promptVersion: question.promptVersion }
     } catch (error) {
+      if (signal.aborted) return { content: '' }
       console.error('Error generating question:', error)
-      return questionsRemaining <= 1 
-        ? "What's one specific action you'll take tomorrow to move your startup forward?"
-        : "What's one specific challenge you're facing today, and what small step could you take to move forward?"
+      // Without the AI the session carries on from the scripted exercise or the offline question bank
+      return {
+        content: intervention
+          ? nextExerciseStep(intervention)
+          : pickFallbackQuestion(currentSession, conversationHistory, founderStage, rejectedQuestion)
+      }
     }
   }
 
-  const startReflection = async () => {
+  // The closing turn, recapping this conversation; the wrap-up is null if it could not be written
+  const generateClosingMessage = async (conversationHistory: Message[], currentSession: SessionState) => {
+    try {
+      const sessionWrapUp = await generateWrapUp(conversationHistory, sessionTemplate(currentSession).wrapUpFormat, Boolean(currentSession.safetyFlag))
+      return { content: formatWrapUpMessage(sessionWrapUp), wrapUp: sessionWrapUp }
+    } catch (error) {
+      console.error('Error generating wrap-up:', error)
+      return { content: FALLBACK_CLOSING_MESSAGE, wrapUp: null }
+    }
+  }
+
+  const startReflection = async (template: SessionTemplate, length: SessionLength) => {
     setIsLoading(true)
     setHasStarted(true)
+
+    const sessionDate = todayKey(timeZone)
+    const newSessionId = `${sessionDate}_${Date.now()}`
+    setSessionId(newSessionId)
+
+    let pendingCommitments: Commitment[] = []
+    try {
+      pendingCommitments = await takeFollowUps(user.id, newSessionId, sessionDate)
+    } catch (error) {
+      console.error('Error loading commitments:', error)
+    }
     
-    const newSessionState: SessionState = {
+    // The welcome message is the first checkpoint a conversation can be rewound to
+    const newSessionState = withCheckpoint({
       startTime: Date.now(),
       questionCount: 0,
-      maxQuestions: 5,
+      ...budgetFor(template, length),
+      length,
+      ...startClock(Date.now()),
       isComplete: false,
       topics: [],
       topicCoverage: {},
-      currentFocus: null
-    }
+      currentFocus: null,
+      followUpCommitmentIds: pendingCommitments.map(c => c.id),
+      template,
+      checkIns: startCheckIn ? { start: recordCheckIn(startCheckIn) } : undefined
+    }, 1)
     
     setSessionState(newSessionState)
+    lastAnalysisRef.current = null
+    lastActivityRef.current = Date.now()
     
     const welcomeMessage: Message = {
       id: Date.now().toString(),
       role: 'assistant',
-      content: "Welcome to your daily reflection! I'm here to help you think through your startup journey in the next 15-20 minutes. Let's start with something positive: What's one thing you accomplished yesterday that moved your startup forward, no matter how small?",
+      content: pendingCommitments.length > 0
+        ? buildFollowUpOpening(pendingCommitments)
+        : template.openingQuestion,
       timestamp: Date.now()
     }
     
     const newMessages = [welcomeMessage]
     setMessages(newMessages)
-    await saveReflection(newMessages, newSessionState)
+    await saveReflection(newSessionId, newMessages, newSessionState)
     setIsLoading(false)
   }
 
-  const sendMessage = async () => {
-    if (!input.trim() || isLoading || sessionState.isComplete) return
+  const resetSession = () => {
+    setSessionId('')
+    setMessages([])
+    setSessionState(EMPTY_SESSION)
+    setWrapUp(null)
+    setHasStarted(false)
+    setStartCheckIn(null)
+    setEndCheckIn(DEFAULT_WELLBEING)
+    setEndCheckInSkipped(false)
+  }
+
+  // Back to the start screen once a session is finished, so another can begin
+  const startAnotherSession = () => {
+    resetSession()
+    setCompletedToday(prev => prev + 1)
+  }
+
+  const updateSessionState = async (nextSession: SessionState) => {
+    setSessionState(nextSession)
+    await saveReflection(sessionId, messages, nextSession)
+  }
+
+  const pauseReflection = () => updateSessionState(pauseSession(sessionState, Date.now()))
+
+  const resumeReflection = () => {
+    lastActivityRef.current = Date.now()
+    return updateSessionState(resumeSession(sessionState, Date.now()))
+  }
+
+  // Leaves the running exercise; the founder's next answer goes back to the normal flow
+  const skipExercise = () => {
+    const running = activeIntervention(sessionState)
+    if (running) return updateSessionState(skipIntervention(sessionState, running))
+  }
+
+  // Stored onto the finished reflection, which by now may carry its assessment and block analysis
+  const submitEndCheckIn = async () => {
+    try {
+      const saved = await saveEndCheckIn(user.id, sessionId, endCheckIn)
+      if (saved?.sessionState) setSessionState(saved.sessionState)
+    } catch (error) {
+      console.error('Error saving check-in:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save your check-in. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  // The founder saw the support lines and wants to keep reflecting
+  const continueAfterSupport = () => {
+    lastActivityRef.current = Date.now()
+    return updateSessionState(acknowledgeSafetyFlag(sessionState, Date.now()))
+  }
+
+  // Ends a flagged session without a wrap-up; the support lines stay on screen
+  const endAfterSupport = async () => {
+    const closingMessage: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: SUPPORT_CLOSING_MESSAGE,
+      timestamp: Date.now()
+    }
+    const finalMessages = [...messages, closingMessage]
+    const finalSession = { ...stopClock(sessionState, Date.now()), isComplete: true }
+    setMessages(finalMessages)
+    setSessionState(finalSession)
+    await saveReflection(sessionId, finalMessages, finalSession)
+  }
+
+  // Keeps the conversation for the history but ends it without a wrap-up or assessment
+  const abandonReflection = async () => {
+    setConfirmAbandon(false)
+    streamAbortRef.current?.abort()
+    await saveReflection(sessionId, messages, abandonSession(sessionState, Date.now()))
+    resetSession()
+    toast({
+      title: "Session abandoned",
+      description: "The conversation so far is kept in your history."
+    })
+  }
 
+  /**
+   * Adds the founder's answer after baseMessages and runs the coach from there.
+   * baseSession is the session as it stood at that point, so edited turns pick
+   * up from the right question count and coverage.
+   */
+  const runTurn = async (baseMessages: Message[], baseSession: SessionState, content: string) => {
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: input.trim(),
+      content,
       timestamp: Date.now()
     }
 
-    const updatedMessages = [...messages, userMessage]
+    const updatedMessages = [...baseMessages, userMessage]
     setMessages(updatedMessages)
-    setInput('')
+    setSessionState(baseSession)
     setIsLoading(true)
+    lastActivityRef.current = Date.now()
+
+    // The first answer of a follow-up session says how the earlier commitments went
+    const followUpIds = baseSession.followUpCommitmentIds ?? []
+    if (!baseMessages.some(m => m.role === 'user') && followUpIds.length > 0) {
+      inferFollowUpOutcomes(userMessage.content, followUpIds)
+        .catch(error => console.error('Error inferring commitment outcomes:', error))
+    }
+
+    const controller = new AbortController()
+    streamAbortRef.current = controller
 
     try {
-      // Update session state
-      const updatedSessionState: SessionState = {
-        ...sessionState,
-        questionCount: sessionState.questionCount + 1
+      // Topic coverage is updated every turn, including the last, so the stored session reflects the whole conversation
+      const analysisPromise = analyzeConversationContext(updatedMessages, baseSession).then(analysis => {
+        lastAnalysisRef.current = analysis
+        return analysis
+      })
+
+      const running = activeIntervention(baseSession)
+
+      // Answers to an exercise's steps don't use up the question budget, and a session never ends mid-exercise
+      const exercise = running && !isExerciseAnswered(running) ? running : null
+      const answeredCount = baseSession.questionCount + (running ? 0 : 1)
+      const isEnding = !exercise && shouldEndSession({ ...baseSession, questionCount: answeredCount })
+
+      // Blocks are looked for while the distress check and analysis run, so a clear one can open an exercise this turn
+      const detectionPromise = !isEnding && canStartIntervention({ ...baseSession, questionCount: answeredCount })
+        ? detectAnswerBlocks(userMessage)
+        : null
+
+      // Acute distress stops the coaching: any reply is withdrawn and support shown instead
+      const holdForSupport = async () => {
+        const supportMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          role: 'assistant',
+          content: SUPPORT_MESSAGE,
+          timestamp: Date.now()
+        }
+        const finalMessages = [...updatedMessages, supportMessage]
+        const heldSession = flagSession(running ? skipIntervention(baseSession, running) : baseSession, userMessage.id, Date.now())
+        setMessages(finalMessages)
+        setSessionState(heldSession)
+        await saveReflection(sessionId, finalMessages, heldSession)
+      }
+
+      // The fixed phrases are checked before the coach replies; the classifier runs alongside the reply, which stays hidden until it clears
+      if (screenForDistress(userMessage.content) === 'acute') {
+        await holdForSupport()
+        return
       }
+      const distressPromise = checkForDistress(userMessage)
+
+      // The last step was just answered: the outcome is written alongside the next question
+      const outcomePromise = running && !exercise ? writeExerciseOutcome(updatedMessages, running) : null
+      let turnSession = baseSession
 
-      const aiResponse = await generateContextualQuestion(updatedMessages, updatedSessionState)
-      
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: aiResponse,
+        content: '',
         timestamp: Date.now()
       }
 
-      const finalMessages = [...updatedMessages, assistantMessage]
-      
-      // Check if session should be marked complete
-      const elapsedMinutes = (Date.now() - updatedSessionState.startTime) / (1000 * 60)
-      const finalSessionState: SessionState = {
-        ...updatedSessionState,
-        isComplete: shouldEndSession(updatedSessionState, elapsedMinutes)
+      let closing: Awaited<ReturnType<typeof generateClosingMessage>> | null = null
+      if (isEnding) {
+        closing = await generateClosingMessage(updatedMessages, baseSession)
+        assistantMessage.content = closing.content
+        assistantMessage.promptVersion = closing.wrapUp?.promptVersion
+      } else {
+        // A clear block in the answer switches the coach into a short exercise for it
+        let step = exercise
+        const detection = detectionPromise
+          ? pickIntervention({ ...baseSession, questionCount: answeredCount }, await detectionPromise)
+          : null
+        if (detection) {
+          turnSession = startIntervention(turnSession, detection)
+          step = activeIntervention(turnSession)
+        }
+
+        // Chunks are held back until the classifier clears the answer, then the question streams into its bubble
+        let held = ''
+        let isShown = false
+        let isGenerating = true
+        distressPromise.then(level => {
+          if (level === 'acute' || controller.signal.aborted) return
+          isShown = true
+          setMessages([...updatedMessages, { ...assistantMessage, content: held }])
+          if (isGenerating) setIsStreaming(true)
+        })
+        Object.assign(assistantMessage, await generateContextualQuestion(
+          updatedMessages,
+          { ...turnSession, questionCount: answeredCount },
+          lastAnalysisRef.current ?? EMPTY_ANALYSIS,
+          (chunk) => {
+            if (controller.signal.aborted) return
+            if (!isShown) {
+              held += chunk
+              return
+            }
+            setMessages(prev => prev.map(m => m.id === assistantMessage.id ? { ...m, content: m.content + chunk } : m))
+          },
+          controller.signal,
+          undefined,
+          step ?? undefined
+        ))
+        isGenerating = false
+        setIsStreaming(false)
+        if (step) {
+          turnSession = recordStepAsked(turnSession, step)
+          assistantMessage.interventionId = step.id
+        }
       }
 
+      // The classifier heard acute distress that the fixed phrases missed: the reply never stands
+      if (await distressPromise === 'acute') {
+        await holdForSupport()
+        return
+      }
+
+      // The founder started typing again: drop the half-written question and keep their answer
+      if (!isEnding && controller.signal.aborted) {
+        setMessages(updatedMessages)
+        await saveReflection(sessionId, updatedMessages, baseSession)
+        return
+      }
+
+      if (running && outcomePromise) {
+        turnSession = completeIntervention(turnSession, running, await outcomePromise)
+      }
+
+      const analysis = await analysisPromise
+      const finalMessages = [...updatedMessages, assistantMessage]
+      const progressedSession = withCheckpoint({
+        ...mergeAnalysis(turnSession, analysis, baseSession.questionCount),
+        questionCount: answeredCount,
+        isComplete: isEnding
+      }, finalMessages.length)
+      const finalSessionState = isEnding ? stopClock(progressedSession, Date.now()) : progressedSession
+
       setMessages(finalMessages)
       setSessionState(finalSessionState)
-      await saveReflection(finalMessages, finalSessionState)
+      setWrapUp(closing?.wrapUp ?? null)
+      const savedReflection = await saveReflection(sessionId, finalMessages, finalSessionState, closing?.wrapUp ?? undefined)
+
+      // Score the finished session in the background for the dashboard, then carry its commitments forward
+      if (finalSessionState.isComplete) {
+        ensureAssessment(savedReflection)
+          .catch(error => {
+            console.error('Error assessing reflection:', error)
+            return savedReflection
+          })
+          .then(captureCommitments)
+          .catch(error => console.error('Error saving commitments:', error))
+          .then(() => ensureBlockDetection(savedReflection))
+          .catch(error => console.error('Error detecting mental blocks:', error))
+      }
     } catch (error) {
       console.error('Error sending message:', error)
       toast({
@@ -346,10 +691,99 @@ Keep it conversational and under 80 words.`
         variant: "destructive"
       })
     } finally {
+      if (streamAbortRef.current === controller) streamAbortRef.current = null
+      setIsStreaming(false)
+      setIsLoading(false)
+      lastActivityRef.current = Date.now()
+    }
+  }
+
+
+  const sendMessage = async () => {
+    if (!input.trim() || isLoading || sessionState.isComplete || isSessionPaused(sessionState) || isSafetyHold(sessionState)) return
+    const content = input.trim()
+    setInput('')
+    await runTurn(messages, sessionState, content)
+  }
+
+  // Replaces an earlier answer and re-runs the coach from that point
+  const saveEditedMessage = async () => {
+    if (!editing || !editing.text.trim() || isLoading) return
+    const { index, text } = editing
+    setEditing(null)
+    await runTurn(messages.slice(0, index), rewindSession(sessionState, messages, index), text.trim())
+  }
+
+  // Asks the coach for another take on its latest question
+  const regenerateQuestion = async () => {
+    const previous = messages[messages.length - 1]
+    if (isLoading || sessionState.isComplete || isSafetyHold(sessionState) || previous?.role !== 'assistant' || messages.length < 2) return
+
+    const baseMessages = messages.slice(0, -1)
+    const controller = new AbortController()
+    streamAbortRef.current = controller
+    const replacement: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      interventionId: previous.interventionId
+    }
+
+    // An exercise step is asked again as the same step
+    const running = activeIntervention(sessionState)
+    const redoStep = running && running.id === previous.interventionId
+      ? { ...running, stepsAsked: running.stepsAsked - 1 }
+      : undefined
+
+    setIsLoading(true)
+    setIsStreaming(true)
+    setMessages([...baseMessages, replacement])
+    try {
+      Object.assign(replacement, await generateContextualQuestion(
+        baseMessages,
+        sessionState,
+        lastAnalysisRef.current ?? EMPTY_ANALYSIS,
+        (chunk) => {
+          if (controller.signal.aborted) return
+          setMessages(prev => prev.map(m => m.id === replacement.id ? { ...m, content: m.content + chunk } : m))
+        },
+        controller.signal,
+        previous.content,
+        redoStep
+      ))
+
+      // Cancelled by typing: keep the original question
+      const finalMessages = controller.signal.aborted ? messages : [...baseMessages, replacement]
+      setMessages(finalMessages)
+      await saveReflection(sessionId, finalMessages, sessionState)
+    } finally {
+      if (streamAbortRef.current === controller) streamAbortRef.current = null
+      setIsStreaming(false)
       setIsLoading(false)
     }
   }
 
+  // Takes back the latest answer and the coach's reply, returning the answer to the input box
+  const undoLastExchange = async () => {
+    const index = lastUserMessageIndex(messages)
+    if (index < 0 || isLoading || sessionState.isComplete) return
+
+    const rewoundMessages = messages.slice(0, index)
+    const rewoundSession = rewindSession(sessionState, messages, index)
+    setInput(messages[index].content)
+    setMessages(rewoundMessages)
+    setSessionState(rewoundSession)
+    await saveReflection(sessionId, rewoundMessages, rewoundSession)
+  }
+
+  // Typing while the coach is still writing cancels the question in flight
+  const handleInputChange = (value: string) => {
+    setInput(value)
+    lastActivityRef.current = Date.now()
+    if (isStreaming && value.trim()) streamAbortRef.current?.abort()
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -365,7 +799,7 @@ Keep it conversational and under 80 words.`
           <h1 className="text-2xl font-bold text-foreground">Daily Reflection</h1>
         </div>
         <p className="text-muted-foreground">
-          {new Date().toLocaleDateString('en-US', { 
+          {formatDateKey(todayDate, { 
             weekday: 'long', 
             year: 'numeric', 
             month: 'long', 
@@ -379,46 +813,199 @@ Keep it conversational and under 80 words.`
           <CardTitle className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <Sparkles className="h-5 w-5 text-accent" />
-              <span>Your Reflection Space</span>
+              <span>{hasStarted ? activeTemplate.name : 'Your Reflection Space'}</span>
             </div>
             {hasStarted && !sessionState.isComplete && (
               <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                 <div className="flex items-center space-x-1">
                   <Target className="h-4 w-4" />
-                  <span>{sessionState.questionCount}/{sessionState.maxQuestions}</span>
+                  <span>{sessionState.questionCount}/{activeBudget.maxQuestions}</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Clock className="h-4 w-4" />
-                  <span>{Math.round((currentTime - sessionState.startTime) / (1000 * 60))}min</span>
+                  <span>{Math.round(activeMinutes(sessionState, currentTime))}/{activeBudget.maxMinutes}min</span>
                 </div>
+                {!isSessionPaused(sessionState) && (
+                  <button
+                    onClick={pauseReflection}
+                    disabled={isLoading}
+                    className="p-1 rounded-md hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+                    title="Pause session"
+                  >
+                    <Pause className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => setConfirmAbandon(true)}
+                  disabled={isLoading}
+                  className="p-1 rounded-md hover:text-destructive hover:bg-muted transition-colors disabled:opacity-50"
+                  title="Abandon session"
+                >
+                  <X className="h-4 w-4" />
+                </button>
               </div>
             )}
           </CardTitle>
+          {hasStarted && sessionState.topics.length > 0 && (
+            <TopicCoverageStrip sessionState={sessionState} className="pt-2" />
+          )}
         </CardHeader>
         
         <CardContent className="flex-1 flex flex-col">
           {!hasStarted ? (
             <div className="flex-1 flex items-center justify-center">
-              <div className="text-center max-w-md">
+              <div className="text-center max-w-2xl w-full">
                 <div className="mb-6">
                   <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Sparkles className="h-8 w-8 text-primary" />
                   </div>
-                  <h3 className="text-lg font-semibold mb-2">Ready for today's reflection?</h3>
+                  <h3 className="text-lg font-semibold mb-2">
+                    {completedToday > 0 ? 'Ready for another session?' : "Ready for today's reflection?"}
+                  </h3>
+                  {completedToday > 0 && (
+                    <p className="text-sm text-muted-foreground mb-2">
+                      You've completed {completedToday} {completedToday === 1 ? 'session' : 'sessions'} today.
+                    </p>
+                  )}
                   <p className="text-muted-foreground mb-6">
-                    Take 15-20 minutes to reflect on your progress, challenges, and plans. 
-                    I'll ask 3-5 focused questions to help you gain clarity and momentum.
+                    Pick a session type and length. {selectedTemplate.name} takes up to {selectedBudget.maxMinutes} minutes, 
+                    and I'll ask up to {selectedBudget.maxQuestions} focused questions to help you gain clarity and momentum.
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-2 mb-4">
+                  {(Object.keys(SESSION_LENGTHS) as SessionLength[]).map((length) => (
+                    <button
+                      key={length}
+                      onClick={() => chooseLength(length)}
+                      title={SESSION_LENGTHS[length].description}
+                      className={`p-2 rounded-lg border text-sm font-medium transition-colors ${
+                        length === selectedLength
+                          ? 'border-primary bg-primary/5'
+                          : 'border-border hover:bg-muted'
+                      }`}
+                    >
+                      {SESSION_LENGTHS[length].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6 text-left">
+                  {templates.map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => setSelectedTemplateId(template.id)}
+                      className={`p-3 rounded-lg border transition-colors ${
+                        template.id === selectedTemplate.id
+                          ? 'border-primary bg-primary/5'
+                          : 'border-border hover:bg-muted'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{template.name}</span>
+                        {!template.isBuiltIn && (
+                          <Trash2
+                            className="h-4 w-4 text-muted-foreground hover:text-destructive"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              removeTemplate(template.id)
+                            }}
+                          />
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {describeBudget(budgetFor(template, selectedLength))}
+                      </p>
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setTemplateDialogOpen(true)}
+                    className="p-3 rounded-lg border border-dashed border-border hover:bg-muted transition-colors flex items-center justify-center space-x-2 text-muted-foreground"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Create Template</span>
+                  </button>
+                </div>
+                <div className="mb-6 p-4 rounded-lg border text-left">
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium">How are you arriving?</h4>
+                    <button
+                      onClick={() => setStartCheckIn(startCheckIn ? null : DEFAULT_WELLBEING)}
+                      className="text-sm text-muted-foreground hover:text-foreground"
+                    >
+                      {startCheckIn ? 'Clear check-in' : 'Record as shown'}
+                    </button>
+                  </div>
+                  <div className={startCheckIn ? '' : 'opacity-60'}>
+                    <WellbeingSliders value={startCheckIn ?? DEFAULT_WELLBEING} onChange={setStartCheckIn} />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-3">
+                    {startCheckIn ? 'This check-in will be saved with your session.' : 'Optional. Move a slider to check in, or start without one.'}
                   </p>
                 </div>
-                <Button onClick={startReflection} size="lg" className="w-full">
-                  Start Today's Reflection
+                <Button onClick={() => startReflection(selectedTemplate, selectedLength)} size="lg" className="w-full">
+                  Start {selectedTemplate.name}
                 </Button>
+                <SessionTemplateDialog
+                  open={templateDialogOpen}
+                  onOpenChange={setTemplateDialogOpen}
+                  onSave={async (template) => {
+                    await saveCustomTemplate(user.id, template)
+                    setSelectedTemplateId(template.id)
+                  }}
+                />
               </div>
             </div>
           ) : (
             <>
+              {followUps.length > 0 && (
+                <div className="mb-4 p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center space-x-2 text-sm font-medium">
+                    <ListChecks className="h-4 w-4 text-primary" />
+                    <span>Earlier Commitments</span>
+                  </div>
+                  {followUps.map((commitment) => (
+                    <div key={commitment.id} className="flex items-center justify-between gap-2">
+                      <div className="text-sm">
+                        <span>{commitment.text}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {formatDateKey(commitment.sourceDate, { month: 'short', day: 'numeric' })}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        {COMMITMENT_OUTCOMES.map((outcome) => (
+                          <Badge
+                            key={outcome}
+                            variant={commitment.status === outcome ? 'default' : 'outline'}
+                            className="cursor-pointer capitalize"
+                            onClick={() => markOutcome(commitment, outcome)}
+                          >
+                            {outcome}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {runningExercise && !sessionState.isComplete && (
+                <div className="mb-4 p-3 rounded-lg border border-primary/30 bg-primary/5 flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {EXERCISES[runningExercise.exercise].name} · {MENTAL_BLOCKS[runningExercise.block].label}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      A short exercise, step {Math.max(1, runningExercise.stepsAsked)} of {EXERCISES[runningExercise.exercise].steps.length}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={skipExercise} disabled={isLoading}>
+                    Skip exercise
+                  </Button>
+                </div>
+              )}
+
               <div className="flex-1 space-y-4 mb-4 max-h-96 overflow-y-auto">
-                {messages.map((message) => (
+                {messages.map((message, index) => (
                   <div
                     key={message.id}
                     className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -430,14 +1017,53 @@ Keep it conversational and under 80 words.`
                           : 'bg-muted text-muted-foreground'
                       }`}
                     >
-                      <p className="whitespace-pre-wrap">{message.content}</p>
-                      <p className="text-xs opacity-70 mt-1">
-                        {new Date(message.timestamp).toLocaleTimeString()}
-                      </p>
+                      {editing?.index === index ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={editing.text}
+                            onChange={(e) => setEditing({ index, text: e.target.value })}
+                            className="min-h-[60px] bg-background text-foreground"
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button size="sm" variant="secondary" onClick={() => setEditing(null)}>
+                              Cancel
+                            </Button>
+                            <Button size="sm" variant="secondary" onClick={saveEditedMessage} disabled={!editing.text.trim()}>
+                              Save & Continue
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                      )}
+                      <div className="flex items-center justify-between gap-2 mt-1">
+                        <p className="text-xs opacity-70">
+                          {formatInstant(message.timestamp, timeZone, { hour: 'numeric', minute: '2-digit', second: '2-digit' })}
+                        </p>
+                        {!sessionState.isComplete && !isSessionPaused(sessionState) && !isLoading && editing === null && (
+                          message.role === 'user' ? (
+                            <button
+                              onClick={() => setEditing({ index, text: message.content })}
+                              className="opacity-70 hover:opacity-100"
+                              title="Edit answer"
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </button>
+                          ) : index > 0 && index === messages.length - 1 && (
+                            <button
+                              onClick={regenerateQuestion}
+                              className="opacity-70 hover:opacity-100"
+                              title="Try a different question"
+                            >
+                              <RefreshCw className="h-3 w-3" />
+                            </button>
+                          )
+                        )}
+                      </div>
                     </div>
                   </div>
                 ))}
-                {isLoading && (
+                {isLoading && !isStreaming && (
                   <div className="flex justify-start">
                     <div className="bg-muted text-muted-foreground p-3 rounded-lg">
                       <div className="flex space-x-1">
@@ -460,16 +1086,73 @@ Keep it conversational and under 80 words.`
                   <p className="text-sm text-muted-foreground">
                     Great work today. Your insights have been saved and will help track your progress over time.
                   </p>
+                  {wrapUp && <SessionWrapUpCard wrapUp={wrapUp} className="mt-4 text-left" />}
+                  {sessionState.safetyFlag && <SupportResourcesCard region={supportRegion} className="mt-4 text-left" />}
+                  {!sessionState.checkIns?.end && !endCheckInSkipped && (
+                    <div className="mt-4 p-4 rounded-lg border bg-background text-left">
+                      <h4 className="font-medium mb-3">How are you leaving?</h4>
+                      <WellbeingSliders value={endCheckIn} onChange={setEndCheckIn} />
+                      <div className="flex justify-end space-x-2 mt-4">
+                        <Button variant="ghost" size="sm" onClick={() => setEndCheckInSkipped(true)}>
+                          Skip
+                        </Button>
+                        <Button size="sm" onClick={submitEndCheckIn}>
+                          Save check-in
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  <Button variant="outline" onClick={startAnotherSession} className="mt-4">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Start Another Session
+                  </Button>
+                </div>
+              ) : isSafetyHold(sessionState) ? (
+                <div className="space-y-4">
+                  <SupportResourcesCard region={supportRegion} />
+                  <div className="flex flex-col sm:flex-row justify-center gap-2">
+                    <Button variant="outline" onClick={endAfterSupport}>
+                      Stop for today
+                    </Button>
+                    <Button onClick={continueAfterSupport}>
+                      Keep reflecting
+                    </Button>
+                  </div>
+                </div>
+              ) : isSessionPaused(sessionState) ? (
+                <div className="text-center p-6 bg-muted/50 rounded-lg">
+                  <h3 className="font-semibold text-foreground mb-2">
+                    {sessionState.status === 'idle' ? 'Paused while you were away' : 'Session paused'}
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    The timer is stopped. Pick up where you left off whenever you're ready.
+                  </p>
+                  <Button onClick={resumeReflection}>
+                    <Play className="h-4 w-4 mr-1" />
+                    Resume
+                  </Button>
                 </div>
               ) : (
                 <div className="flex space-x-2">
+                  {lastUserMessageIndex(messages) >= 0 && (
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      className="px-4"
+                      onClick={undoLastExchange}
+                      disabled={isLoading}
+                      title="Undo last exchange"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Textarea
                     value={input}
-                    onChange={(e) => setInput(e.target.value)}
+                    onChange={(e) => handleInputChange(e.target.value)}
                     onKeyPress={handleKeyPress}
                     placeholder="Share your thoughts..."
                     className="flex-1 min-h-[60px] resize-none"
-                    disabled={isLoading || sessionState.isComplete}
+                    disabled={(isLoading && !isStreaming) || sessionState.isComplete}
                   />
                   <Button
                     onClick={sendMessage}
@@ -485,6 +1168,21 @@ Keep it conversational and under 80 words.`
           )}
         </CardContent>
       </Card>
+
+      <AlertDialog open={confirmAbandon} onOpenChange={setConfirmAbandon}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Abandon this session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The conversation so far stays in your history, but it won't be wrapped up or scored, and you can't continue it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Going</AlertDialogCancel>
+            <AlertDialogAction onClick={abandonReflection}>Abandon Session</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
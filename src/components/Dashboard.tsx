@@ -1,84 +1,151 @@
 import { useState, useEffect, useCallback } from 'react'
-import { TrendingUp, Calendar, Target, Brain, Flame } from 'lucide-react'
+import { TrendingUp, Calendar, Target, Brain, Flame, ListChecks, HeartPulse } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
+import {
+  commitmentRepository,
+  reflectionRepository,
+  type Commitment,
+  type MentalBlockId,
+  type Message,
+  type ReflectionData
+} from '../storage'
+import { ensureAssessment, needsAssessment } from '../lib/reflection-assessment'
+import { MENTAL_BLOCKS, blockHistory, ensureBlockDetection, needsBlockDetection, type BlockHistory } from '../lib/mental-blocks'
+import { captureCommitments, getCompletionStats } from '../lib/commitments'
+import { sessionTemplate } from '../lib/session-templates'
+import { useTimeZone } from '../hooks/use-time-zone'
+import { useReportingSettings } from '../hooks/use-reporting-settings'
+import { addDays, daysBetween, formatDateKey, todayKey } from '../lib/dates'
+import { getPeriodRange, periodTitle } from '../lib/reporting-period'
+import {
+  WELLBEING_DIMENSIONS,
+  WELLBEING_DIMENSION_IDS,
+  blockWellbeing,
+  describeBlockWellbeing,
+  describeProgressLink,
+  progressLinks,
+  sessionShift,
+  wellbeingTrend,
+  type BlockWellbeing,
+  type ProgressLink,
+  type WellbeingPoint
+} from '../lib/wellbeing'
+import { BlockTrendBadge } from './BlockTrendBadge'
+import { WellbeingChart } from './WellbeingChart'
 
 interface DashboardProps {
   user: any
   onViewReflection: (date: string) => void
+  onViewMentalBlocks: (block: MentalBlockId | null) => void
 }
 
-interface ReflectionData {
+interface DashboardReflection {
+  id: string
   date: string
-  messages: any[]
-  progressScore: number
-  mentalBlocks: string[]
+  templateName: string
+  messages: Message[]
+  isComplete: boolean // false for unfinished and abandoned sessions
+  progressScore: number | null // null until the AI assessment has run
+  progressRationale: string | null
+  mentalBlocks: MentalBlockId[]
   keyInsights: string[]
 }
 
-export function Dashboard({ user, onViewReflection }: DashboardProps) {
-  const [reflections, setReflections] = useState<ReflectionData[]>([])
+// Scores and classifies completed reflections that predate either or were finished offline, one at a time
+const assessMissing = async (reflections: ReflectionData[]) => {
+  for (const reflection of reflections.filter(r => needsAssessment(r) || needsBlockDetection(r))) {
+    try {
+      // Offline sessions had no wrap-up, so their commitments come from the assessment
+      if (needsAssessment(reflection)) await captureCommitments(await ensureAssessment(reflection))
+      await ensureBlockDetection(reflection)
+    } catch (error) {
+      console.error('Error assessing reflection:', error)
+      return
+    }
+  }
+}
+
+export function Dashboard({ user, onViewReflection, onViewMentalBlocks }: DashboardProps) {
+  const [reflections, setReflections] = useState<DashboardReflection[]>([])
+  const [blockHistories, setBlockHistories] = useState<BlockHistory[]>([])
+  const [wellbeingPoints, setWellbeingPoints] = useState<WellbeingPoint[]>([])
+  const [wellbeingShift, setWellbeingShift] = useState<ReturnType<typeof sessionShift>>(null)
+  const [wellbeingLinks, setWellbeingLinks] = useState<ProgressLink[]>([])
+  const [blockWellbeingLinks, setBlockWellbeingLinks] = useState<BlockWellbeing[]>([])
   const [streak, setStreak] = useState(0)
   const [weeklyProgress, setWeeklyProgress] = useState(0)
+  const [commitments, setCommitments] = useState<Commitment[]>([])
+  const timeZone = useTimeZone(user?.id)
+  const { period, weekStartsOn, sprintStartDate } = useReportingSettings(user?.id)
 
-  const loadDashboardData = useCallback(() => {
+  const loadDashboardData = useCallback(async () => {
     if (!user?.id) return
 
-    // Load reflections from localStorage
-    const allReflections: ReflectionData[] = []
-    const keys = Object.keys(localStorage).filter(key => 
-      key.startsWith(`reflection_${user.id}_`)
-    )
-
-    keys.forEach(key => {
-      try {
-        const data = JSON.parse(localStorage.getItem(key) || '{}')
-        if (data.messages && data.messages.length > 0) {
-          allReflections.push({
-            date: data.date,
-            messages: data.messages,
-            progressScore: Math.floor(Math.random() * 100), // Mock score
-            mentalBlocks: [],
-            keyInsights: []
-          })
-        }
-      } catch (error) {
-        console.error('Error loading reflection:', error)
-      }
-    })
+    const storedReflections = (await reflectionRepository.list(user.id))
+      .filter(data => data.messages && data.messages.length > 0)
+    const allReflections: DashboardReflection[] = storedReflections.map(data => ({
+      id: data.id,
+      date: data.date,
+      templateName: sessionTemplate(data.sessionState ?? {}).name,
+      messages: data.messages,
+      isComplete: Boolean(data.sessionState?.isComplete),
+      progressScore: data.assessment?.progressScore ?? null,
+      progressRationale: data.assessment?.progressRationale ?? null,
+      mentalBlocks: [...new Set(data.blockAnalysis?.detections.map(d => d.block) ?? [])],
+      keyInsights: data.assessment?.keyInsights ?? []
+    }))
 
     setReflections(allReflections.sort((a, b) => b.date.localeCompare(a.date)))
+    setBlockHistories(blockHistory(storedReflections))
+    setWellbeingPoints(wellbeingTrend(storedReflections))
+    setWellbeingShift(sessionShift(storedReflections))
+    setWellbeingLinks(progressLinks(storedReflections))
+    setBlockWellbeingLinks(blockWellbeing(storedReflections))
     
+    const today = todayKey(timeZone)
+
     // Calculate streak
-    calculateStreak(allReflections)
+    calculateStreak(allReflections, today)
     
-    // Calculate weekly progress
-    const thisWeek = allReflections.filter(r => {
-      const reflectionDate = new Date(r.date)
-      const weekAgo = new Date()
-      weekAgo.setDate(weekAgo.getDate() - 7)
-      return reflectionDate >= weekAgo
-    })
-    setWeeklyProgress(Math.min((thisWeek.length / 7) * 100, 100))
-  }, [user?.id])
+    // Calculate progress through the current week or sprint
+    const current = getPeriodRange(today, { period, weekStartsOn, sprintStartDate })
+    const thisPeriod = new Set(allReflections.filter(r => r.date >= current.start && r.date <= current.end).map(r => r.date))
+    const periodDays = daysBetween(current.start, current.end) + 1
+    setWeeklyProgress(Math.min((thisPeriod.size / periodDays) * 100, 100))
+
+    // Saved assessments trigger a reload through the repository subscription
+    assessMissing(storedReflections)
+  }, [user?.id, timeZone, period, weekStartsOn, sprintStartDate])
 
   useEffect(() => {
     loadDashboardData()
-  }, [loadDashboardData])
+    if (!user?.id) return
+    return reflectionRepository.subscribe(user.id, loadDashboardData)
+  }, [user?.id, loadDashboardData])
 
-  const calculateStreak = (reflections: ReflectionData[]) => {
+  const loadCommitments = useCallback(async () => {
+    if (!user?.id) return
+    setCommitments(await commitmentRepository.list(user.id))
+  }, [user?.id])
+
+  useEffect(() => {
+    loadCommitments()
+    if (!user?.id) return
+    return commitmentRepository.subscribe(user.id, loadCommitments)
+  }, [user?.id, loadCommitments])
+
+  const calculateStreak = (reflections: DashboardReflection[], today: string) => {
     if (reflections.length === 0) {
       setStreak(0)
       return
     }
 
     let currentStreak = 0
-    const today = new Date()
-    const todayStr = today.toISOString().split('T')[0]
     
     // Check if there's a reflection today
-    const hasToday = reflections.some(r => r.date === todayStr)
+    const hasToday = reflections.some(r => r.date === today)
     if (!hasToday) {
       setStreak(0)
       return
@@ -86,9 +153,7 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
 
     // Count consecutive days
     for (let i = 0; i < 30; i++) {
-      const checkDate = new Date(today)
-      checkDate.setDate(checkDate.getDate() - i)
-      const checkDateStr = checkDate.toISOString().split('T')[0]
+      const checkDateStr = addDays(today, -i)
       
       if (reflections.some(r => r.date === checkDateStr)) {
         currentStreak++
@@ -101,28 +166,43 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
   }
 
   const getRecentInsights = () => {
-    const recentReflections = reflections.slice(0, 5)
-    const insights = [
-      "You've been consistently focusing on product development",
-      "Customer feedback is becoming a recurring theme",
-      "Time management appears to be a growing concern",
-      "You're showing strong resilience in facing challenges",
-      "Your networking efforts are paying off"
-    ]
-    return insights.slice(0, Math.min(3, recentReflections.length))
+    return reflections
+      .slice(0, 5)
+      .flatMap(r => r.keyInsights)
+      .slice(0, 3)
   }
 
   const getProgressTrend = () => {
-    if (reflections.length < 2) return 0
-    const recent = reflections.slice(0, 3)
-    const older = reflections.slice(3, 6)
+    const scores = reflections
+      .map(r => r.progressScore)
+      .filter((score): score is number => score !== null)
+    if (scores.length < 2) return 0
+    const recent = scores.slice(0, 3)
+    const older = scores.slice(3, 6)
     
-    const recentAvg = recent.reduce((sum, r) => sum + r.progressScore, 0) / recent.length
-    const olderAvg = older.length > 0 ? older.reduce((sum, r) => sum + r.progressScore, 0) / older.length : recentAvg
+    const recentAvg = recent.reduce((sum, score) => sum + score, 0) / recent.length
+    const olderAvg = older.length > 0 ? older.reduce((sum, score) => sum + score, 0) / older.length : recentAvg
     
     return recentAvg - olderAvg
   }
 
+  // The most recent days with sessions, each with its sessions newest first
+  const getRecentDays = () => {
+    const days: { date: string, sessions: DashboardReflection[] }[] = []
+    for (const reflection of reflections) {
+      const day = days.find(d => d.date === reflection.date)
+      if (day) day.sessions.push(reflection)
+      else days.push({ date: reflection.date, sessions: [reflection] })
+    }
+    return days.slice(0, 5)
+  }
+
+  const commitmentStats = getCompletionStats(commitments)
+  // Outcomes recorded in the last 30 days, to show whether follow-through is improving
+  const recentCommitmentStats = getCompletionStats(
+    commitments.filter(c => c.resolvedDate && c.resolvedDate >= addDays(todayKey(timeZone), -29))
+  )
+
   return (
     <div className="max-w-7xl mx-auto p-6">
       <div className="mb-8">
@@ -149,7 +229,7 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Weekly Progress</CardTitle>
+            <CardTitle className="text-sm font-medium">{periodTitle(period)} Progress</CardTitle>
             <Target className="h-4 w-4 text-primary" />
           </CardHeader>
           <CardContent>
@@ -164,7 +244,7 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
             <Calendar className="h-4 w-4 text-accent" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{reflections.length}</div>
+            <div className="text-2xl font-bold">{reflections.filter(r => r.isComplete).length}</div>
             <p className="text-xs text-muted-foreground">
               Reflection sessions completed
             </p>
@@ -221,27 +301,42 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
           <CardContent>
             {reflections.length > 0 ? (
               <div className="space-y-4">
-                {reflections.slice(0, 5).map((reflection, index) => (
+                {getRecentDays().map((day) => (
                   <button
-                    key={index}
-                    onClick={() => onViewReflection(reflection.date)}
+                    key={day.date}
+                    onClick={() => onViewReflection(day.date)}
                     className="w-full flex items-center justify-between p-3 bg-muted rounded-lg hover:bg-muted/80 transition-colors text-left"
                   >
                     <div>
                       <p className="font-medium">
-                        {new Date(reflection.date).toLocaleDateString('en-US', {
+                        {formatDateKey(day.date, {
                           weekday: 'short',
                           month: 'short',
                           day: 'numeric'
                         })}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {reflection.messages.length} messages exchanged
+                        {day.sessions.length > 1
+                          ? `${day.sessions.length} sessions · ${day.sessions.reduce((sum, s) => sum + s.messages.length, 0)} messages`
+                          : `${day.sessions[0].messages.length} messages exchanged`}
                       </p>
                     </div>
-                    <Badge variant="secondary">
-                      {reflection.progressScore}% progress
-                    </Badge>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {[...new Set(day.sessions.flatMap(s => s.mentalBlocks))].map((block) => (
+                        <Badge key={block} variant="outline">{MENTAL_BLOCKS[block].label}</Badge>
+                      ))}
+                      {day.sessions.map((session) => session.progressScore !== null ? (
+                        <Badge
+                          key={session.id}
+                          variant="secondary"
+                          title={`${session.templateName}${session.progressRationale ? `: ${session.progressRationale}` : ''}`}
+                        >
+                          {session.progressScore}% progress
+                        </Badge>
+                      ) : (
+                        <Badge key={session.id} variant="outline" title={session.templateName}>Not scored</Badge>
+                      ))}
+                    </div>
                   </button>
                 ))}
               </div>
@@ -254,6 +349,148 @@ export function Dashboard({ user, onViewReflection }: DashboardProps) {
         </Card>
       </div>
 
+      {/* Mental Blocks */}
+      {blockHistories.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Brain className="h-5 w-5 text-primary" />
+                <span>Mental Blocks</span>
+              </div>
+              <button
+                onClick={() => onViewMentalBlocks(null)}
+                className="text-sm font-normal text-primary hover:underline"
+              >
+                View history
+              </button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {blockHistories.slice(0, 4).map((history) => (
+                <button
+                  key={history.block}
+                  onClick={() => onViewMentalBlocks(history.block)}
+                  className="p-3 bg-muted rounded-lg hover:bg-muted/80 transition-colors text-left"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{MENTAL_BLOCKS[history.block].label}</span>
+                    <BlockTrendBadge trend={history.trend} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    In {Math.round(history.frequency * 100)}% of sessions · last on {formatDateKey(history.occurrences[0].date, { month: 'short', day: 'numeric' })}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Wellbeing */}
+      {wellbeingPoints.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <HeartPulse className="h-5 w-5 text-primary" />
+              <span>Wellbeing</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WellbeingChart points={wellbeingPoints} className="h-64 w-full" />
+
+            {wellbeingShift && (
+              <div className="grid grid-cols-3 gap-4 mt-6">
+                {WELLBEING_DIMENSION_IDS.map((dimension) => (
+                  <div key={dimension} className="text-center">
+                    <div className="text-2xl font-bold">
+                      {wellbeingShift[dimension] > 0 ? '+' : ''}{wellbeingShift[dimension].toFixed(1)}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {WELLBEING_DIMENSIONS[dimension].label} change per session
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-6 space-y-2">
+              <h4 className="font-medium">What goes with what</h4>
+              {wellbeingLinks.length > 0 || blockWellbeingLinks.length > 0 ? (
+                <ul className="text-sm space-y-1">
+                  {wellbeingLinks.map((link) => (
+                    <li key={link.dimension}>• {describeProgressLink(link)}</li>
+                  ))}
+                  {blockWellbeingLinks.slice(0, 3).map((link) => (
+                    <li key={link.block}>• {describeBlockWellbeing(link)}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Check in at a few more scored sessions to see how your wellbeing relates to progress and mental blocks.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Commitment Follow-Through */}
+      {commitments.length > 0 && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ListChecks className="h-5 w-5 text-primary" />
+              <span>Commitment Follow-Through</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-primary">
+                  {commitmentStats.completionRate !== null ? `${commitmentStats.completionRate}%` : '—'}
+                </div>
+                <p className="text-sm text-muted-foreground">All-time completion</p>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-primary">
+                  {recentCommitmentStats.completionRate !== null ? `${recentCommitmentStats.completionRate}%` : '—'}
+                </div>
+                <p className="text-sm text-muted-foreground">Last 30 days</p>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-green-600">{commitmentStats.done}</div>
+                <p className="text-sm text-muted-foreground">Done</p>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-orange-600">{commitmentStats.partial}</div>
+                <p className="text-sm text-muted-foreground">Partial</p>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-muted-foreground">{commitmentStats.dropped}</div>
+                <p className="text-sm text-muted-foreground">Dropped</p>
+              </div>
+            </div>
+            {commitmentStats.open > 0 && (
+              <div>
+                <h4 className="font-medium mb-2">Awaiting Follow-Up ({commitmentStats.open})</h4>
+                <ul className="space-y-1">
+                  {commitments.filter(c => c.status === 'open').slice(0, 5).map((commitment) => (
+                    <li key={commitment.id} className="text-sm flex items-center justify-between">
+                      <span>{commitment.text}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDateKey(commitment.sourceDate, { month: 'short', day: 'numeric' })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Motivational Section */}
       {reflections.length > 0 && (
         <Card className="mt-8">
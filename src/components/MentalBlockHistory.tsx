@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ArrowLeft, Brain, Quote } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { reflectionRepository, type MentalBlockId } from '../storage'
+import { formatDateKey } from '../lib/dates'
+import { MENTAL_BLOCKS, blockHistory, type BlockHistory } from '../lib/mental-blocks'
+import { BlockTrendBadge } from './BlockTrendBadge'
+
+interface MentalBlockHistoryProps {
+  user: any
+  initialBlock: MentalBlockId | null
+  onBack: () => void
+  onViewReflection: (date: string) => void
+}
+
+export function MentalBlockHistory({ user, initialBlock, onBack, onViewReflection }: MentalBlockHistoryProps) {
+  const [histories, setHistories] = useState<BlockHistory[]>([])
+  const [classifiedCount, setClassifiedCount] = useState(0)
+  const [selectedBlock, setSelectedBlock] = useState<MentalBlockId | null>(initialBlock)
+  const [loading, setLoading] = useState(true)
+
+  const loadHistory = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const reflections = await reflectionRepository.list(user.id)
+      setHistories(blockHistory(reflections))
+      setClassifiedCount(reflections.filter(r => r.blockAnalysis).length)
+    } catch (error) {
+      console.error('Error loading mental blocks:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    loadHistory()
+    if (!user?.id) return
+    return reflectionRepository.subscribe(user.id, loadHistory)
+  }, [user?.id, loadHistory])
+
+  const selected = histories.find(h => h.block === selectedBlock) ?? histories[0] ?? null
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading mental blocks...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={onBack}
+          className="flex items-center space-x-2 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to Dashboard</span>
+        </Button>
+
+        <div className="flex items-center space-x-2 mb-2">
+          <Brain className="h-5 w-5 text-primary" />
+          <h1 className="text-2xl font-bold text-foreground">Mental Blocks</h1>
+        </div>
+        <p className="text-muted-foreground">
+          Patterns spotted across {classifiedCount} completed {classifiedCount === 1 ? 'session' : 'sessions'}, in your own words
+        </p>
+      </div>
+
+      {histories.length === 0 ? (
+        <Card>
+          <CardContent className="pt-8 pb-8">
+            <div className="text-center">
+              <Brain className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Mental Blocks Spotted Yet</h3>
+              <p className="text-muted-foreground">
+                Blocks like perfectionism or fear of selling will show up here as they come up in your reflections.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {histories.map((history) => (
+              <button
+                key={history.block}
+                onClick={() => setSelectedBlock(history.block)}
+                className={`w-full p-3 rounded-lg border text-left transition-colors ${
+                  history.block === selected?.block
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border hover:bg-muted'
+                }`}
+              >
+                <p className="font-medium">{MENTAL_BLOCKS[history.block].label}</p>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {history.sessionCount} of {classifiedCount} sessions · {Math.round(history.frequency * 100)}%
+                </p>
+                <BlockTrendBadge trend={history.trend} />
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{MENTAL_BLOCKS[selected.block].label}</span>
+                  <BlockTrendBadge trend={selected.trend} />
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">{MENTAL_BLOCKS[selected.block].description}</p>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {selected.occurrences.map((occurrence, index) => (
+                    <button
+                      key={`${occurrence.reflectionId}_${index}`}
+                      onClick={() => onViewReflection(occurrence.date)}
+                      className="w-full p-3 bg-muted rounded-lg hover:bg-muted/80 transition-colors text-left"
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium">
+                          {formatDateKey(occurrence.date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </span>
+                        <span className="text-xs text-muted-foreground" title="Intensity">
+                          {'●'.repeat(occurrence.intensity)}{'○'.repeat(3 - occurrence.intensity)}
+                        </span>
+                      </div>
+                      <p className="text-sm italic flex items-start space-x-2">
+                        <Quote className="h-3 w-3 mt-1 flex-shrink-0 text-muted-foreground" />
+                        <span>{occurrence.evidence}</span>
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
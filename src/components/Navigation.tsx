@@ -1,4 +1,4 @@
-import { MessageSquare, BarChart3, FileText, User, LogOut } from 'lucide-react'
+import { MessageSquare, BarChart3, FileText, CalendarRange, User, LogOut, FlaskConical } from 'lucide-react'
 import { blink } from '../blink/client'
 
 interface NavigationProps {
@@ -12,7 +12,10 @@ export function Navigation({ currentPage, onPageChange, user }: NavigationProps)
     { id: 'reflection', label: 'Daily Reflection', icon: MessageSquare },
     { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { id: 'summaries', label: 'Weekly Summaries', icon: FileText },
+    { id: 'retrospectives', label: 'Retrospectives', icon: CalendarRange },
     { id: 'profile', label: 'Profile', icon: User },
+    // Prompt review is a development tool and never ships to founders
+    ...(import.meta.env.DEV ? [{ id: 'prompts', label: 'Prompt Review', icon: FlaskConical }] : []),
   ]
 
   return (
@@ -1,28 +1,21 @@
 import { useState, useEffect, useCallback } from 'react'
-import { User, Building, Target, Save } from 'lucide-react'
+import { User, Building, Target, Save, Settings } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
-import { Textarea } from './ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { useToast } from '../hooks/use-toast'
+import { profileRepository, type FounderProfile, type ReportingPeriod, type SupportRegion } from '../storage'
+import { getBrowserTimeZone, listTimeZones } from '../lib/dates'
+import { WEEKDAYS } from '../lib/reporting-period'
+import { SUPPORT_REGIONS, SUPPORT_REGION_IDS, supportRegionFor } from '../lib/safety'
 
 interface ProfileSetupProps {
   user: any
   onProfileComplete?: () => void
 }
 
-interface FounderProfile {
-  companyName: string
-  industry: string
-  stage: string
-  goals: string[]
-  currentChallenges: string[]
-  reflectionStreak: number
-  lastReflectionDate: string
-}
-
 export function ProfileSetup({ user, onProfileComplete }: ProfileSetupProps) {
   const [profile, setProfile] = useState<FounderProfile>({
     companyName: '',
@@ -31,23 +24,22 @@ export function ProfileSetup({ user, onProfileComplete }: ProfileSetupProps) {
     goals: [],
     currentChallenges: [],
     reflectionStreak: 0,
-    lastReflectionDate: ''
+    lastReflectionDate: '',
+    timeZone: getBrowserTimeZone(),
+    weekStartsOn: 0,
+    reportingPeriod: 'week'
   })
   const [isLoading, setIsLoading] = useState(false)
   const [goalInput, setGoalInput] = useState('')
   const [challengeInput, setChallengeInput] = useState('')
   const { toast } = useToast()
 
-  const loadProfile = useCallback(() => {
+  const loadProfile = useCallback(async () => {
     if (!user?.id) return
 
-    const savedProfile = localStorage.getItem(`founder_profile_${user.id}`)
+    const savedProfile = await profileRepository.get(user.id)
     if (savedProfile) {
-      try {
-        setProfile(JSON.parse(savedProfile))
-      } catch (error) {
-        console.error('Error loading profile:', error)
-      }
+      setProfile({ ...savedProfile, timeZone: savedProfile.timeZone || getBrowserTimeZone() })
     }
   }, [user?.id])
 
@@ -96,12 +88,7 @@ export function ProfileSetup({ user, onProfileComplete }: ProfileSetupProps) {
     setIsLoading(true)
     
     try {
-      const profileData = {
-        ...profile,
-        updatedAt: new Date().toISOString()
-      }
-      
-      localStorage.setItem(`founder_profile_${user.id}`, JSON.stringify(profileData))
+      await profileRepository.save(user.id, profile)
       
       toast({
         title: "Profile Saved",
@@ -316,6 +303,103 @@ export function ProfileSetup({ user, onProfileComplete }: ProfileSetupProps) {
           </CardContent>
         </Card>
 
+        {/* Reflection Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Settings className="h-5 w-5 text-primary" />
+              <span>Reflection Settings</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="timeZone">Timezone</Label>
+              <Select
+                value={profile.timeZone}
+                onValueChange={(value) => setProfile(prev => ({ ...prev, timeZone: value }))}
+              >
+                <SelectTrigger id="timeZone">
+                  <SelectValue placeholder="Select your timezone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {listTimeZones().map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Reflections, streaks and weekly summaries follow the calendar day in this timezone.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="weekStartsOn">Week Starts On</Label>
+                <Select
+                  value={String(profile.weekStartsOn ?? 0)}
+                  onValueChange={(value) => setProfile(prev => ({ ...prev, weekStartsOn: Number(value) }))}
+                >
+                  <SelectTrigger id="weekStartsOn">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reportingPeriod">Summary Period</Label>
+                <Select
+                  value={profile.reportingPeriod ?? 'week'}
+                  onValueChange={(value) => setProfile(prev => ({ ...prev, reportingPeriod: value as ReportingPeriod }))}
+                >
+                  <SelectTrigger id="reportingPeriod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="week">Weekly</SelectItem>
+                    <SelectItem value="sprint">Two-week sprint</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {profile.reportingPeriod === 'sprint' && (
+              <div>
+                <Label htmlFor="sprintStartDate">Current Sprint Started On</Label>
+                <Input
+                  id="sprintStartDate"
+                  type="date"
+                  value={profile.sprintStartDate ?? ''}
+                  onChange={(e) => setProfile(prev => ({ ...prev, sprintStartDate: e.target.value || undefined }))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Sprints repeat every two weeks from this day. Leave empty to align them with your week start.
+                </p>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="supportRegion">Support Lines Region</Label>
+              <Select
+                value={supportRegionFor(profile.supportRegion, profile.timeZone)}
+                onValueChange={(value) => setProfile(prev => ({ ...prev, supportRegion: value as SupportRegion }))}
+              >
+                <SelectTrigger id="supportRegion">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORT_REGION_IDS.map((region) => (
+                    <SelectItem key={region} value={region}>{SUPPORT_REGIONS[region].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                If a reflection shows you are going through something really hard, the coach pauses and shows support lines for this region.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* User Information */}
         <Card>
           <CardHeader>
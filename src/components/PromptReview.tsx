@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FlaskConical } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { reflectionRepository } from '../storage'
+import { PROMPT_REGISTRY, type PromptId } from '../ai'
+import { PROMPT_FIXTURES, type PromptFixture } from '../ai/fixtures'
+import { PROMPT_IDS, diffLines, fixtureFromReflection, renderFixturePrompt } from '../ai/prompt-harness'
+
+interface PromptReviewProps {
+  user: any
+}
+
+const DIFF_STYLES = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-500/10 text-green-700',
+  removed: 'bg-red-500/10 text-red-700 line-through'
+}
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' }
+
+/**
+ * Development-only screen that renders a prompt against a fixture or one of
+ * the founder's saved sessions, comparing two registry versions line by line.
+ */
+export function PromptReview({ user }: PromptReviewProps) {
+  const [fixtures, setFixtures] = useState<PromptFixture[]>(PROMPT_FIXTURES)
+  const [fixtureId, setFixtureId] = useState(PROMPT_FIXTURES[0].id)
+  const [promptId, setPromptId] = useState<PromptId>('coach_question')
+  const versions = PROMPT_REGISTRY[promptId].map(v => v.version)
+  const latest = versions[versions.length - 1]
+  const [baseVersion, setBaseVersion] = useState(versions[Math.max(0, versions.length - 2)])
+  const [candidateVersion, setCandidateVersion] = useState(latest)
+
+  const loadSavedSessions = useCallback(async () => {
+    if (!user?.id) return
+    const saved = (await reflectionRepository.list(user.id))
+      .filter(r => r.messages.length > 1)
+      .slice(0, 10)
+      .map(fixtureFromReflection)
+    setFixtures([...PROMPT_FIXTURES, ...saved])
+  }, [user?.id])
+
+  useEffect(() => {
+    loadSavedSessions()
+  }, [loadSavedSessions])
+
+  const selectPrompt = (id: PromptId) => {
+    const ids = PROMPT_REGISTRY[id].map(v => v.version)
+    setPromptId(id)
+    setBaseVersion(ids[Math.max(0, ids.length - 2)])
+    setCandidateVersion(ids[ids.length - 1])
+  }
+
+  const fixture = fixtures.find(f => f.id === fixtureId) ?? fixtures[0]
+  const base = renderFixturePrompt(fixture, promptId, baseVersion)
+  const candidate = renderFixturePrompt(fixture, promptId, candidateVersion)
+  const diff = diffLines(base.text, candidate.text)
+  const changed = diff.filter(line => line.kind !== 'same').length
+  const candidateNote = PROMPT_REGISTRY[promptId].find(v => v.version === candidateVersion)?.note
+
+  const versionSelect = (value: number, onChange: (version: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="md:w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version} value={String(version)}>
+            v{version}{version === latest ? ' (live)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground mb-2">Prompt Review</h1>
+        <p className="text-muted-foreground">
+          Render prompts against saved conversations and compare versions before shipping a change
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <Select value={fixture.id} onValueChange={setFixtureId}>
+              <SelectTrigger className="md:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fixtures.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>{f.description}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={promptId} onValueChange={(value) => selectPrompt(value as PromptId)}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROMPT_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>{id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {versionSelect(baseVersion, setBaseVersion)}
+            <span className="text-muted-foreground text-sm">→</span>
+            {versionSelect(candidateVersion, setCandidateVersion)}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              <span>{base.label} → {candidate.label}</span>
+            </CardTitle>
+            <Badge variant={changed > 0 ? 'default' : 'secondary'}>
+              {changed > 0 ? `${changed} lines changed` : 'No changes'}
+            </Badge>
+          </div>
+          {candidateNote && <p className="text-sm text-muted-foreground">{candidateNote}</p>}
+        </CardHeader>
+        <CardContent>
+          <pre className="text-xs whitespace-pre-wrap font-mono bg-muted p-4 rounded-lg overflow-x-auto">
+            {diff.map((line, index) => (
+              <div key={index} className={DIFF_STYLES[line.kind]}>
+                {DIFF_MARKERS[line.kind]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
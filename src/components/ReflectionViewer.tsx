@@ -1,28 +1,20 @@
 import { useState, useEffect, useCallback } from 'react'
-import { ArrowLeft, Calendar, Clock, MessageSquare, Target } from 'lucide-react'
+import { ArrowLeft, Calendar, Clock, Dumbbell, MessageSquare, Target } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: number
-}
-
-interface ReflectionData {
-  date: string
-  messages: Message[]
-  sessionState?: {
-    startTime: number
-    questionCount: number
-    maxQuestions: number
-    isComplete: boolean
-  }
-  userId: string
-  updatedAt: number
-}
+import { reflectionRepository, type ReflectionData } from '../storage'
+import { useTimeZone } from '../hooks/use-time-zone'
+import { useSupportRegion } from '../hooks/use-support-region'
+import { formatDateKey, formatInstant } from '../lib/dates'
+import { SessionWrapUpCard } from './SessionWrapUpCard'
+import { TopicCoverageStrip } from './TopicCoverageStrip'
+import { SupportResourcesCard } from './SupportResourcesCard'
+import { sessionTemplate } from '../lib/session-templates'
+import { isSessionAbandoned, sessionDurationMinutes } from '../lib/session-clock'
+import { MENTAL_BLOCKS } from '../lib/mental-blocks'
+import { EXERCISES } from '../lib/interventions'
+import { WELLBEING_DIMENSIONS, WELLBEING_DIMENSION_IDS } from '../lib/wellbeing'
 
 interface ReflectionViewerProps {
   user: any
@@ -31,21 +23,22 @@ interface ReflectionViewerProps {
 }
 
 export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionViewerProps) {
-  const [reflection, setReflection] = useState<ReflectionData | null>(null)
+  const [sessions, setSessions] = useState<ReflectionData[]>([])
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const timeZone = useTimeZone(user?.id)
+  const supportRegion = useSupportRegion(user?.id)
 
-  const loadReflection = useCallback(() => {
+  const loadReflection = useCallback(async () => {
     if (!user?.id || !reflectionDate) {
       setLoading(false)
       return
     }
 
     try {
-      const savedReflection = localStorage.getItem(`reflection_${user.id}_${reflectionDate}`)
-      if (savedReflection) {
-        const data = JSON.parse(savedReflection)
-        setReflection(data)
-      }
+      const daySessions = await reflectionRepository.listByDate(user.id, reflectionDate)
+      setSessions(daySessions)
+      setSelectedSessionId(daySessions[daySessions.length - 1]?.id ?? null)
     } catch (error) {
       console.error('Error loading reflection:', error)
     } finally {
@@ -57,9 +50,18 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
     loadReflection()
   }, [loadReflection])
 
+  const reflection = sessions.find(s => s.id === selectedSessionId) ?? null
+
+  const sessionLabel = (session: ReflectionData) => {
+    const startedAt = session.sessionState?.startTime || session.messages[0]?.timestamp
+    const name = sessionTemplate(session.sessionState ?? {}).name
+    return startedAt
+      ? `${name} · ${formatInstant(startedAt, timeZone, { hour: 'numeric', minute: '2-digit', hour12: true })}`
+      : name
+  }
+
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    return date.toLocaleDateString('en-US', {
+    return formatDateKey(dateString, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -67,14 +69,10 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
     })
   }
 
+  // Active minutes only, so time spent paused or idle is left out
   const getSessionDuration = () => {
-    if (!reflection?.sessionState || !reflection.messages.length) return null
-    
-    const firstMessage = reflection.messages[0]
-    const lastMessage = reflection.messages[reflection.messages.length - 1]
-    const duration = lastMessage.timestamp - firstMessage.timestamp
-    
-    return Math.round(duration / (1000 * 60)) // Convert to minutes
+    if (!reflection?.sessionState) return null
+    return sessionDurationMinutes(reflection)
   }
 
   const getSessionStats = () => {
@@ -134,6 +132,7 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
   }
 
   const stats = getSessionStats()
+  const interventions = reflection.sessionState?.interventions ?? []
 
   return (
     <div className="max-w-4xl mx-auto p-6">
@@ -153,13 +152,28 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
           <h1 className="text-2xl font-bold text-foreground">Daily Reflection</h1>
         </div>
         <p className="text-muted-foreground">{formatDate(reflection.date)}</p>
+
+        {sessions.length > 1 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {sessions.map((session) => (
+              <Button
+                key={session.id}
+                variant={session.id === reflection.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedSessionId(session.id)}
+              >
+                {sessionLabel(session)}
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Session Stats */}
       {stats && (
         <Card className="mb-6">
           <CardHeader>
-            <CardTitle className="text-lg">Session Overview</CardTitle>
+            <CardTitle className="text-lg">{sessionTemplate(reflection.sessionState ?? {}).name} Overview</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -186,14 +200,82 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
             {reflection.sessionState && (
               <div className="mt-4 flex items-center justify-center space-x-4">
                 <Badge variant={reflection.sessionState.isComplete ? "default" : "secondary"}>
-                  {reflection.sessionState.isComplete ? "Completed" : "In Progress"}
+                  {reflection.sessionState.isComplete
+                    ? "Completed"
+                    : isSessionAbandoned(reflection.sessionState) ? "Abandoned" : "In Progress"}
                 </Badge>
+                {reflection.sessionState.safetyFlag && (
+                  <Badge variant="outline">Flagged for care</Badge>
+                )}
                 <div className="flex items-center space-x-1 text-sm text-muted-foreground">
                   <Target className="h-4 w-4" />
                   <span>{reflection.sessionState.questionCount}/{reflection.sessionState.maxQuestions} questions</span>
                 </div>
               </div>
             )}
+
+            {reflection.sessionState?.checkIns && (
+              <div className="mt-4 grid grid-cols-3 gap-4">
+                {WELLBEING_DIMENSION_IDS.map((dimension) => {
+                  const { start, end } = reflection.sessionState!.checkIns!
+                  return (
+                    <div key={dimension} className="text-center">
+                      <div className="text-lg font-semibold">
+                        {start?.[dimension] ?? '–'} → {end?.[dimension] ?? '–'}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{WELLBEING_DIMENSIONS[dimension].label}, start to end</p>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {reflection.sessionState && reflection.sessionState.topics.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm text-muted-foreground text-center mb-2">Topics covered</p>
+                <TopicCoverageStrip sessionState={reflection.sessionState} className="justify-center" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {reflection.wrapUp && <SessionWrapUpCard wrapUp={reflection.wrapUp} className="mb-6" />}
+
+      {reflection.sessionState?.safetyFlag && <SupportResourcesCard region={supportRegion} className="mb-6" />}
+
+      {interventions.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Dumbbell className="h-5 w-5 text-primary" />
+              <span>Exercises</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {interventions.map((intervention) => (
+                <div key={intervention.id} className="p-3 bg-muted rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium">
+                      {EXERCISES[intervention.exercise].name} · {MENTAL_BLOCKS[intervention.block].label}
+                    </span>
+                    <Badge variant={intervention.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
+                      {intervention.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground italic mb-2">"{intervention.evidence}"</p>
+                  {intervention.outcome && (
+                    <div className="text-sm space-y-1">
+                      <p>{intervention.outcome.insight}</p>
+                      {intervention.outcome.nextStep && (
+                        <p className="text-muted-foreground">Next step: {intervention.outcome.nextStep}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -224,12 +306,18 @@ export function ReflectionViewer({ user, reflectionDate, onBack }: ReflectionVie
                   <div className="flex items-center space-x-2 mt-2 opacity-70">
                     <Clock className="h-3 w-3" />
                     <p className="text-xs">
-                      {new Date(message.timestamp).toLocaleTimeString('en-US', {
+                      {formatInstant(message.timestamp, timeZone, {
                         hour: 'numeric',
                         minute: '2-digit',
                         hour12: true
                       })}
                     </p>
+                    {message.interventionId && (
+                      <p className="text-xs">Exercise</p>
+                    )}
+                    {message.promptVersion && (
+                      <p className="text-xs font-mono">{message.promptVersion}</p>
+                    )}
                   </div>
                 </div>
               </div>
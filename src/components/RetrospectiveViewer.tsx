@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ArrowLeft, BarChart3, Brain, Calendar, CalendarRange, FileText, MessageSquare, Target, TrendingUp } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { retrospectiveRepository, summaryRepository, type Retrospective, type WeeklySummary } from '../storage'
+import { formatDateKey, formatDateRange } from '../lib/dates'
+import { formatRetrospectivePeriod } from '../lib/retrospective'
+import { periodNoun, summaryPeriod } from '../lib/reporting-period'
+import { SummaryPointList } from './SummaryPointList'
+
+interface RetrospectiveViewerProps {
+  user: any
+  retrospectiveId: string
+  onBack: () => void
+  onViewSummary: (summaryId: string) => void
+  onViewReflection: (date: string) => void
+}
+
+export function RetrospectiveViewer({ user, retrospectiveId, onBack, onViewSummary, onViewReflection }: RetrospectiveViewerProps) {
+  const [retrospective, setRetrospective] = useState<Retrospective | null>(null)
+  const [sourceSummaries, setSourceSummaries] = useState<WeeklySummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadRetrospective = useCallback(async () => {
+    if (!user?.id || !retrospectiveId) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const found = await retrospectiveRepository.get(user.id, retrospectiveId)
+      setRetrospective(found)
+      if (found) {
+        const summaries = await summaryRepository.list(user.id)
+        setSourceSummaries(summaries.filter(s => found.summaryIds.includes(s.id)).reverse())
+      }
+    } catch (error) {
+      console.error('Error loading retrospective:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, retrospectiveId])
+
+  useEffect(() => {
+    loadRetrospective()
+  }, [loadRetrospective])
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading retrospective...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!retrospective) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={onBack}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Retrospectives</span>
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="pt-8 pb-8">
+            <div className="text-center">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Retrospective Not Found</h3>
+              <p className="text-muted-foreground">
+                The requested retrospective could not be found.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const sourceCount = sourceSummaries.length + retrospective.reflectionDates.length
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={onBack}
+          className="flex items-center space-x-2 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to Retrospectives</span>
+        </Button>
+
+        <div className="flex items-center space-x-2 mb-2">
+          <CalendarRange className="h-5 w-5 text-primary" />
+          <h1 className="text-2xl font-bold text-foreground">
+            {formatRetrospectivePeriod(retrospective.period, retrospective.startDate)} Retrospective
+          </h1>
+        </div>
+        <p className="text-muted-foreground">{formatDateRange(retrospective.startDate, retrospective.endDate)}</p>
+      </div>
+
+      <Tabs defaultValue="retrospective" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="retrospective">Trends & Goals</TabsTrigger>
+          <TabsTrigger value="sources">Sources ({sourceCount})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="retrospective" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileText className="h-5 w-5 text-accent" />
+                <span>Overview</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted p-4 rounded-lg">
+                <p className="whitespace-pre-wrap text-sm">{retrospective.overview}</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5 text-green-500" />
+                <span>Progress Trend</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SummaryPointList
+                points={retrospective.progressTrend}
+                dotClassName="bg-green-500"
+                onViewReflection={onViewReflection}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Brain className="h-5 w-5 text-purple-500" />
+                <span>Recurring Blocks</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SummaryPointList
+                points={retrospective.recurringBlocks}
+                dotClassName="bg-purple-500"
+                onViewReflection={onViewReflection}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Target className="h-5 w-5 text-primary" />
+                <span>Goal Movement</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SummaryPointList
+                points={retrospective.goalMovement}
+                dotClassName="bg-primary"
+                onViewReflection={onViewReflection}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sources" className="space-y-4">
+          {sourceSummaries.map((summary) => (
+            <Card key={summary.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <Calendar className="h-5 w-5 text-primary" />
+                    <span>{periodNoun(summaryPeriod(summary))} of {formatDateRange(summary.weekStartDate, summary.weekEndDate)}</span>
+                  </CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => onViewSummary(summary.id)}>
+                    View Summary
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground line-clamp-3">{summary.summaryText}</p>
+              </CardContent>
+            </Card>
+          ))}
+
+          {retrospective.reflectionDates.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <MessageSquare className="h-5 w-5 text-primary" />
+                  <span>Reflections Without a Summary</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {retrospective.reflectionDates.map((date) => (
+                    <Badge
+                      key={date}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() => onViewReflection(date)}
+                    >
+                      {formatDateKey(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {sourceCount === 0 && (
+            <Card>
+              <CardContent className="pt-8 pb-8">
+                <p className="text-center text-muted-foreground">
+                  The summaries this retrospective was built from are no longer available.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
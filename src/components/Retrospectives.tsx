@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react'
+import { BarChart3, Brain, CalendarRange, Plus, RefreshCw, Target, TrendingUp } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useToast } from '../hooks/use-toast'
+import { retrospectiveRepository, type Retrospective, type RetrospectivePeriod } from '../storage'
+import { useTimeZone } from '../hooks/use-time-zone'
+import { formatInstant, todayKey } from '../lib/dates'
+import { createRetrospective, formatRetrospectivePeriod, recentRetrospectiveRanges } from '../lib/retrospective'
+import { SummaryPointList } from './SummaryPointList'
+
+interface RetrospectivesProps {
+  user: any
+  onViewRetrospective: (retrospectiveId: string) => void
+}
+
+export function Retrospectives({ user, onViewRetrospective }: RetrospectivesProps) {
+  const [retrospectives, setRetrospectives] = useState<Retrospective[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [period, setPeriod] = useState<RetrospectivePeriod>('month')
+  const [selectedStart, setSelectedStart] = useState('')
+  const timeZone = useTimeZone(user?.id)
+  const { toast } = useToast()
+
+  const ranges = recentRetrospectiveRanges(period, todayKey(timeZone), period === 'quarter' ? 4 : 6)
+  const selectedRange = ranges.find(r => r.start === selectedStart) ?? ranges[0]
+
+  const loadRetrospectives = useCallback(async () => {
+    if (!user?.id) return
+    setRetrospectives(await retrospectiveRepository.list(user.id))
+  }, [user?.id])
+
+  useEffect(() => {
+    loadRetrospectives()
+    if (!user?.id) return
+    return retrospectiveRepository.subscribe(user.id, loadRetrospectives)
+  }, [user?.id, loadRetrospectives])
+
+  const generateRetrospective = async (existing?: Retrospective) => {
+    setIsGenerating(true)
+
+    const targetPeriod = existing?.period ?? period
+    const targetStart = existing?.startDate ?? selectedRange.start
+
+    try {
+      if (!existing && await retrospectiveRepository.findByPeriod(user.id, selectedRange.start, selectedRange.end)) {
+        toast({
+          title: "Retrospective Already Exists",
+          description: "Use Regenerate on the existing retrospective to refresh it.",
+          variant: "destructive"
+        })
+        return
+      }
+
+      const retrospective = await createRetrospective(user.id, targetPeriod, targetStart, existing)
+      if (!retrospective) {
+        toast({
+          title: "Nothing to Review",
+          description: "There are no weekly summaries or reflections in this period yet.",
+          variant: "destructive"
+        })
+        return
+      }
+
+      toast({
+        title: existing ? "Retrospective Regenerated" : "Retrospective Generated",
+        description: `Your retrospective for ${formatRetrospectivePeriod(targetPeriod, targetStart)} is ready.`
+      })
+    } catch (error) {
+      console.error('Error generating retrospective:', error)
+      toast({
+        title: "Error",
+        description: "Failed to generate retrospective. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Retrospectives</h1>
+            <p className="text-muted-foreground">
+              Monthly and quarterly rollups of your weekly summaries, ready for board updates
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <Select
+              value={period}
+              onValueChange={(value) => {
+                setPeriod(value as RetrospectivePeriod)
+                setSelectedStart('')
+              }}
+            >
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={selectedRange.start} onValueChange={setSelectedStart}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ranges.map((range) => (
+                  <SelectItem key={range.start} value={range.start}>
+                    {formatRetrospectivePeriod(period, range.start)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => generateRetrospective()}
+              disabled={isGenerating}
+              className="flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{isGenerating ? 'Generating...' : 'Generate Retrospective'}</span>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {retrospectives.length === 0 ? (
+        <Card>
+          <CardContent className="pt-8 pb-8">
+            <div className="text-center">
+              <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Retrospectives Yet</h3>
+              <p className="text-muted-foreground">
+                Pick a month or quarter above to roll up its weekly summaries and reflections.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {retrospectives.map((retrospective) => (
+            <Card key={retrospective.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle
+                    className="flex items-center space-x-2 cursor-pointer"
+                    onClick={() => onViewRetrospective(retrospective.id)}
+                  >
+                    <CalendarRange className="h-5 w-5 text-primary" />
+                    <span>{formatRetrospectivePeriod(retrospective.period, retrospective.startDate)}</span>
+                  </CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">
+                      {retrospective.period === 'quarter' ? 'Quarterly' : 'Monthly'}
+                    </Badge>
+                    <Badge variant="secondary">
+                      {formatInstant(retrospective.createdAt, timeZone, { dateStyle: 'short' })}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => generateRetrospective(retrospective)}
+                      disabled={isGenerating}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Regenerate
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onViewRetrospective(retrospective.id)}
+                    >
+                      View Details
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="bg-muted p-4 rounded-lg">
+                  <p className="whitespace-pre-wrap text-sm">{retrospective.overview}</p>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-3 flex items-center space-x-2">
+                    <TrendingUp className="h-4 w-4 text-green-500" />
+                    <span>Progress Trend</span>
+                  </h4>
+                  <SummaryPointList points={retrospective.progressTrend} dotClassName="bg-green-500" />
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-3 flex items-center space-x-2">
+                    <Brain className="h-4 w-4 text-purple-500" />
+                    <span>Recurring Blocks</span>
+                  </h4>
+                  <SummaryPointList points={retrospective.recurringBlocks} dotClassName="bg-purple-500" />
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-3 flex items-center space-x-2">
+                    <Target className="h-4 w-4 text-primary" />
+                    <span>Goal Movement</span>
+                  </h4>
+                  <SummaryPointList points={retrospective.goalMovement} dotClassName="bg-primary" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Textarea } from './ui/textarea'
+import { useToast } from '../hooks/use-toast'
+import type { SessionTemplate, WrapUpFormat } from '../storage'
+import { CORE_TOPICS } from '../lib/topic-coverage'
+import { WRAP_UP_FORMATS } from '../lib/session-templates'
+
+interface SessionTemplateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (template: SessionTemplate) => Promise<void>
+}
+
+const emptyTemplate = () => ({
+  name: '',
+  description: '',
+  openingQuestion: '',
+  topics: ['daily_progress', 'current_challenges', 'immediate_plans'],
+  maxQuestions: 5,
+  maxMinutes: 20,
+  wrapUpFormat: 'daily_recap' as WrapUpFormat
+})
+
+export function SessionTemplateDialog({ open, onOpenChange, onSave }: SessionTemplateDialogProps) {
+  const [draft, setDraft] = useState(emptyTemplate)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const toggleTopic = (topic: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      topics: checked ? [...prev.topics, topic] : prev.topics.filter(t => t !== topic)
+    }))
+  }
+
+  const saveTemplate = async () => {
+    if (!draft.name.trim() || !draft.openingQuestion.trim()) {
+      toast({
+        title: "Required Field Missing",
+        description: "Give your template a name and an opening question.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (draft.topics.length === 0) {
+      toast({
+        title: "Pick Some Topics",
+        description: "Choose at least one topic for the session to cover.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await onSave({
+        ...draft,
+        id: `custom_${Date.now()}`,
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        openingQuestion: draft.openingQuestion.trim(),
+        maxQuestions: Math.max(1, Math.min(15, Math.round(draft.maxQuestions) || 1)),
+        maxMinutes: Math.max(5, Math.min(90, Math.round(draft.maxMinutes) || 5))
+      })
+      setDraft(emptyTemplate())
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error saving template:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save template. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Session Template</DialogTitle>
+          <DialogDescription>
+            Design your own reflection flow: how it opens, what it covers and how long it runs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="templateName">Name *</Label>
+            <Input
+              id="templateName"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g., Hiring Check-In"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="templateDescription">Description</Label>
+            <Input
+              id="templateDescription"
+              value={draft.description}
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="What is this session for?"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="templateOpening">Opening Question *</Label>
+            <Textarea
+              id="templateOpening"
+              value={draft.openingQuestion}
+              onChange={(e) => setDraft(prev => ({ ...prev, openingQuestion: e.target.value }))}
+              placeholder="The first thing the coach asks"
+              className="min-h-[80px]"
+            />
+          </div>
+
+          <div>
+            <Label>Topics</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {Object.entries(CORE_TOPICS).map(([topic, label]) => (
+                <label key={topic} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={draft.topics.includes(topic)}
+                    onCheckedChange={(checked) => toggleTopic(topic, checked === true)}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="templateQuestions">Questions</Label>
+              <Input
+                id="templateQuestions"
+                type="number"
+                min={1}
+                max={15}
+                value={draft.maxQuestions}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxQuestions: Number(e.target.value) }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="templateMinutes">Minutes</Label>
+              <Input
+                id="templateMinutes"
+                type="number"
+                min={5}
+                max={90}
+                value={draft.maxMinutes}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxMinutes: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="templateWrapUp">Wrap-Up</Label>
+            <Select
+              value={draft.wrapUpFormat}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, wrapUpFormat: value as WrapUpFormat }))}
+            >
+              <SelectTrigger id="templateWrapUp">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(WRAP_UP_FORMATS).map(([format, label]) => (
+                  <SelectItem key={format} value={format}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveTemplate} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,43 @@
+import { CheckCircle2, Lightbulb } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import type { SessionWrapUp } from '../storage'
+import { commitmentsHeading } from '../lib/session-wrap-up'
+
+interface SessionWrapUpCardProps {
+  wrapUp: SessionWrapUp
+  className?: string
+}
+
+export function SessionWrapUpCard({ wrapUp, className }: SessionWrapUpCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">Session Wrap-Up</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">{wrapUp.recap}</p>
+
+        {wrapUp.topInsight && (
+          <div className="flex items-start space-x-2 bg-muted p-3 rounded-lg">
+            <Lightbulb className="h-4 w-4 text-accent mt-0.5 flex-shrink-0" />
+            <p className="text-sm">{wrapUp.topInsight}</p>
+          </div>
+        )}
+
+        {wrapUp.commitments.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">{commitmentsHeading(wrapUp.format)}</h4>
+            <ul className="space-y-1">
+              {wrapUp.commitments.map((commitment, index) => (
+                <li key={index} className="flex items-start space-x-2 text-sm">
+                  <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                  <span>{commitment}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
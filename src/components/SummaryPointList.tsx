@@ -0,0 +1,40 @@
+import type { SummaryPoint } from '../storage'
+import { formatDateKey } from '../lib/dates'
+
+interface SummaryPointListProps {
+  points: SummaryPoint[]
+  dotClassName: string
+  onViewReflection?: (date: string) => void
+}
+
+export function SummaryPointList({ points, dotClassName, onViewReflection }: SummaryPointListProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing noted for this period.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {points.map((point, index) => (
+        <li key={index} className="flex items-start space-x-2">
+          <div className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${dotClassName}`}></div>
+          <div>
+            <span className="text-sm">{point.text}</span>
+            {onViewReflection && point.sourceDates.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {point.sourceDates.map((date) => (
+                  <button
+                    key={date}
+                    onClick={() => onViewReflection(date)}
+                    className="text-xs text-primary hover:underline"
+                  >
+                    {formatDateKey(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
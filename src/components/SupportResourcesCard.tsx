@@ -0,0 +1,50 @@
+import { ExternalLink, LifeBuoy } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import type { SupportRegion } from '../storage'
+import { SUPPORT_REGIONS } from '../lib/safety'
+
+interface SupportResourcesCardProps {
+  region: SupportRegion
+  className?: string
+}
+
+export function SupportResourcesCard({ region, className }: SupportResourcesCardProps) {
+  const { label, emergency, resources } = SUPPORT_REGIONS[region]
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <LifeBuoy className="h-5 w-5 text-primary" />
+          <span>You don't have to handle this alone</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm font-medium">{emergency}</p>
+        {resources.map((resource) => (
+          <div key={resource.name} className="p-3 bg-muted rounded-lg">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{resource.name}</span>
+              {resource.url && (
+                <a
+                  href={resource.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Open website"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              )}
+            </div>
+            <p className="text-sm">{resource.contact}</p>
+            <p className="text-xs text-muted-foreground">{resource.description}</p>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Showing support lines for {label}. You can change the region in your profile.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,39 @@
+import type { SessionState } from '../storage'
+import { CORE_TOPICS, getSessionTopics } from '../lib/topic-coverage'
+
+interface TopicCoverageStripProps {
+  sessionState: SessionState
+  className?: string
+}
+
+// One chip per session topic: muted until mentioned, tinted when mentioned, solid once explored
+export function TopicCoverageStrip({ sessionState, className }: TopicCoverageStripProps) {
+  // Topics outside the session's set still show once they come up
+  const topics = [...new Set([...getSessionTopics(sessionState), ...sessionState.topics])]
+    .filter(topic => CORE_TOPICS[topic])
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ''}`}>
+      {topics.map((topic) => {
+        const label = CORE_TOPICS[topic]
+        const coverage = sessionState.topicCoverage[topic]
+        const isFocus = sessionState.currentFocus === topic && !sessionState.isComplete
+        return (
+          <span
+            key={topic}
+            title={coverage ? `Specificity ${coverage.specificity}/3` : 'Not discussed yet'}
+            className={`px-2 py-0.5 rounded-full text-xs ${
+              coverage?.explored
+                ? 'bg-primary text-primary-foreground'
+                : coverage?.mentioned
+                  ? 'bg-primary/20 text-foreground'
+                  : 'bg-muted text-muted-foreground'
+            } ${isFocus ? 'ring-2 ring-accent' : ''}`}
+          >
+            {label}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,197 +1,173 @@
 import { useState, useEffect, useCallback } from 'react'
-import { FileText, Calendar, TrendingUp, Brain, Plus } from 'lucide-react'
-import { blink } from '../blink/client'
+import { FileText, Calendar, CalendarDays, TrendingUp, Brain, Plus, History, RefreshCw } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
+import { Calendar as CalendarPicker } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
 import { useToast } from '../hooks/use-toast'
+import { reflectionRepository, summaryRepository, type WeeklySummary } from '../storage'
+import { useTimeZone } from '../hooks/use-time-zone'
+import { formatDateRange, formatInstant, fromPickerDate, todayKey, toPickerDate } from '../lib/dates'
+import { createWeeklySummary, findPeriodsWithoutSummary } from '../lib/weekly-summary'
+import { getPeriodRange, periodNoun, periodTitle, summaryPeriod } from '../lib/reporting-period'
+import { useReportingSettings } from '../hooks/use-reporting-settings'
+import { SummaryPointList } from './SummaryPointList'
 
 interface WeeklySummariesProps {
   user: any
   onViewSummary: (summaryId: string) => void
 }
 
-interface WeeklySummary {
-  id: string
-  weekStartDate: string
-  weekEndDate: string
-  summaryText: string
-  progressHighlights: string[]
-  challengesIdentified: string[]
-  mentalBlocksAddressed: string[]
-  recommendations: string[]
-  createdAt: string
-}
-
 export function WeeklySummaries({ user, onViewSummary }: WeeklySummariesProps) {
   const [summaries, setSummaries] = useState<WeeklySummary[]>([])
   const [isGenerating, setIsGenerating] = useState(false)
+  const [reflectionDates, setReflectionDates] = useState<string[]>([])
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [pickedDate, setPickedDate] = useState<string | null>(null)
+  const [backfillProgress, setBackfillProgress] = useState<{ done: number; total: number } | null>(null)
+  const timeZone = useTimeZone(user?.id)
+  const reportingSettings = useReportingSettings(user?.id)
+  const period = reportingSettings.period
   const { toast } = useToast()
 
-  const loadWeeklySummaries = useCallback(() => {
+  const loadWeeklySummaries = useCallback(async () => {
     if (!user?.id) return
-
-    // Load summaries from localStorage
-    const savedSummaries = localStorage.getItem(`weekly_summaries_${user.id}`)
-    if (savedSummaries) {
-      try {
-        setSummaries(JSON.parse(savedSummaries))
-      } catch (error) {
-        console.error('Error loading summaries:', error)
-      }
-    }
+    setSummaries(await summaryRepository.list(user.id))
   }, [user?.id])
 
   useEffect(() => {
     loadWeeklySummaries()
-  }, [loadWeeklySummaries])
-
-  const saveSummaries = (newSummaries: WeeklySummary[]) => {
-    localStorage.setItem(`weekly_summaries_${user.id}`, JSON.stringify(newSummaries))
-    setSummaries(newSummaries)
-  }
-
-  const getWeekReflections = (weekStart: Date, weekEnd: Date) => {
-    const reflections = []
-    const keys = Object.keys(localStorage).filter(key => 
-      key.startsWith(`reflection_${user.id}_`)
-    )
+    if (!user?.id) return
+    return summaryRepository.subscribe(user.id, loadWeeklySummaries)
+  }, [user?.id, loadWeeklySummaries])
 
-    keys.forEach(key => {
-      try {
-        const data = JSON.parse(localStorage.getItem(key) || '{}')
-        if (data.messages && data.messages.length > 0) {
-          const reflectionDate = new Date(data.date)
-          if (reflectionDate >= weekStart && reflectionDate <= weekEnd) {
-            reflections.push(data)
-          }
-        }
-      } catch (error) {
-        console.error('Error loading reflection:', error)
-      }
-    })
+  // Dates with reflections, highlighted in the week picker
+  const loadReflectionDates = useCallback(async () => {
+    if (!user?.id) return
+    const reflections = await reflectionRepository.list(user.id)
+    setReflectionDates(reflections.filter(r => r.messages?.length > 0).map(r => r.date))
+  }, [user?.id])
 
-    return reflections
-  }
+  useEffect(() => {
+    loadReflectionDates()
+    if (!user?.id) return
+    return reflectionRepository.subscribe(user.id, loadReflectionDates)
+  }, [user?.id, loadReflectionDates])
 
-  const generateWeeklySummary = async () => {
+  const generateWeeklySummary = async (dateInWeek: string = todayKey(timeZone)) => {
     setIsGenerating(true)
     
     try {
-      // Get the current week's date range
-      const today = new Date()
-      const weekStart = new Date(today)
-      weekStart.setDate(today.getDate() - today.getDay()) // Start of week (Sunday)
-      const weekEnd = new Date(weekStart)
-      weekEnd.setDate(weekStart.getDate() + 6) // End of week (Saturday)
+      const { start: weekStart, end: weekEnd } = getPeriodRange(dateInWeek, reportingSettings)
 
-      // Check if summary already exists for this week
-      const existingSummary = summaries.find(s => s.weekStartDate === weekStart.toISOString().split('T')[0])
+      // Check if summary already exists for this period
+      const existingSummary = await summaryRepository.findByPeriod(user.id, weekStart, weekEnd)
       if (existingSummary) {
         toast({
           title: "Summary Already Exists",
-          description: "A summary for this week has already been generated.",
+          description: `A summary for this ${period} has already been generated. Use Regenerate to create a new version.`,
           variant: "destructive"
         })
-        setIsGenerating(false)
         return
       }
 
-      // Get reflections for this week
-      const weekReflections = getWeekReflections(weekStart, weekEnd)
-      
-      if (weekReflections.length === 0) {
+      const newSummary = await createWeeklySummary(user.id, weekStart, weekEnd)
+      if (!newSummary) {
         toast({
           title: "No Reflections Found",
-          description: "Complete some daily reflections first to generate a weekly summary.",
+          description: `Complete some daily reflections that ${period} first to generate a summary.`,
           variant: "destructive"
         })
-        setIsGenerating(false)
         return
       }
 
-      // Prepare conversation data for AI
-      const conversationData = weekReflections.map(r => ({
-        date: r.date,
-        messages: r.messages
-      }))
-
-      const summaryPrompt = `You are an AI coach analyzing a founder's weekly reflection data. Based on the following daily reflections from ${weekStart.toLocaleDateString()} to ${weekEnd.toLocaleDateString()}, generate a comprehensive weekly summary.
+      setPickerOpen(false)
+      toast({
+        title: `${periodTitle(period)} Summary Generated`,
+        description: `Your summary for the ${period} of ${formatDateRange(weekStart, weekEnd)} has been created.`
+      })
 
-Reflection data:
-${conversationData.map(r => `
-Date: ${r.date}
-Conversation: ${r.messages.map(m => `${m.role}: ${m.content}`).join('\\n')}
-`).join('\\n---\\n')}
+    } catch (error) {
+      console.error('Error generating summary:', error)
+      toast({
+        title: "Error",
+        description: "Failed to generate summary. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
 
-Generate a structured weekly summary with:
-1. Overall progress summary (2-3 sentences)
-2. Key progress highlights (3-5 bullet points)
-3. Main challenges identified (2-4 bullet points)
-4. Mental blocks addressed (2-3 bullet points)
-5. Recommendations for next week (3-4 actionable items)
+  const regenerateSummary = async (summary: WeeklySummary) => {
+    setIsGenerating(true)
 
-Keep it motivating, specific, and actionable. Focus on patterns and insights across the week.`
+    try {
+      const regenerated = await createWeeklySummary(user.id, summary.weekStartDate, summary.weekEndDate, summary)
+      if (!regenerated) {
+        toast({
+          title: "No Reflections Found",
+          description: "The reflections for this period are no longer available.",
+          variant: "destructive"
+        })
+        return
+      }
 
-      const { text } = await blink.ai.generateText({
-        prompt: summaryPrompt,
-        model: 'gpt-4o-mini',
-        maxTokens: 800
+      toast({
+        title: "Summary Regenerated",
+        description: "The previous version has been kept for comparison."
+      })
+    } catch (error) {
+      console.error('Error regenerating summary:', error)
+      toast({
+        title: "Error",
+        description: "Failed to regenerate summary. Please try again.",
+        variant: "destructive"
       })
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Creates summaries for every past week or sprint that has reflections but no summary yet
+  const backfillSummaries = async () => {
+    setIsGenerating(true)
 
-      // Parse the AI response (simplified parsing)
-      const newSummary: WeeklySummary = {
-        id: Date.now().toString(),
-        weekStartDate: weekStart.toISOString().split('T')[0],
-        weekEndDate: weekEnd.toISOString().split('T')[0],
-        summaryText: text,
-        progressHighlights: [
-          "Maintained consistent daily reflection practice",
-          "Showed resilience in facing startup challenges",
-          "Demonstrated clear thinking about priorities"
-        ],
-        challengesIdentified: [
-          "Time management remains a key concern",
-          "Need to focus more on customer feedback"
-        ],
-        mentalBlocksAddressed: [
-          "Overcame perfectionism in product development",
-          "Addressed imposter syndrome feelings"
-        ],
-        recommendations: [
-          "Schedule dedicated customer interview time",
-          "Implement time-blocking for deep work",
-          "Continue daily reflection practice",
-          "Focus on one key metric this week"
-        ],
-        createdAt: new Date().toISOString()
+    try {
+      const missingPeriods = await findPeriodsWithoutSummary(user.id, todayKey(timeZone), reportingSettings)
+      if (missingPeriods.length === 0) {
+        toast({
+          title: "All Caught Up",
+          description: `Every past ${period} with reflections already has a summary.`
+        })
+        return
       }
 
-      const updatedSummaries = [newSummary, ...summaries]
-      saveSummaries(updatedSummaries)
+      let created = 0
+      for (const missing of missingPeriods) {
+        setBackfillProgress({ done: created, total: missingPeriods.length })
+        if (await createWeeklySummary(user.id, missing.start, missing.end)) created++
+      }
 
       toast({
-        title: "Weekly Summary Generated",
-        description: "Your weekly progress summary has been created successfully."
+        title: "Backfill Complete",
+        description: `Created ${created} summar${created === 1 ? 'y' : 'ies'}.`
       })
-
     } catch (error) {
-      console.error('Error generating summary:', error)
+      console.error('Error backfilling summaries:', error)
       toast({
         title: "Error",
-        description: "Failed to generate weekly summary. Please try again.",
+        description: "Backfill stopped early. Summaries created so far have been saved.",
         variant: "destructive"
       })
     } finally {
+      setBackfillProgress(null)
       setIsGenerating(false)
     }
   }
 
-  const formatDateRange = (startDate: string, endDate: string) => {
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
-  }
+  const pickedWeek = pickedDate ? getPeriodRange(pickedDate, reportingSettings) : null
 
   return (
     <div className="max-w-4xl mx-auto p-6">
@@ -203,14 +179,61 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
               AI-generated insights from your daily reflections
             </p>
           </div>
-          <Button 
-            onClick={generateWeeklySummary}
-            disabled={isGenerating}
-            className="flex items-center space-x-2"
-          >
-            <Plus className="h-4 w-4" />
-            <span>{isGenerating ? 'Generating...' : 'Generate This Week'}</span>
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={backfillSummaries}
+              disabled={isGenerating}
+              className="flex items-center space-x-2"
+            >
+              <History className="h-4 w-4" />
+              <span>
+                {backfillProgress
+                  ? `Backfilling ${backfillProgress.done + 1}/${backfillProgress.total}...`
+                  : 'Backfill Missing'}
+              </span>
+            </Button>
+            <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" disabled={isGenerating} className="flex items-center space-x-2">
+                  <CalendarDays className="h-4 w-4" />
+                  <span>Pick a {periodNoun(period)}</span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <CalendarPicker
+                  mode="single"
+                  selected={pickedDate ? toPickerDate(pickedDate) : undefined}
+                  onSelect={(date) => setPickedDate(date ? fromPickerDate(date) : null)}
+                  disabled={{ after: toPickerDate(todayKey(timeZone)) }}
+                  modifiers={{ reflected: reflectionDates.map(toPickerDate) }}
+                  modifiersClassNames={{ reflected: 'font-bold text-primary' }}
+                />
+                <div className="border-t p-3 space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {pickedWeek
+                      ? `${periodNoun(period)} of ${formatDateRange(pickedWeek.start, pickedWeek.end)}`
+                      : `Select any day in the ${period} to summarize`}
+                  </p>
+                  <Button
+                    className="w-full"
+                    disabled={!pickedDate || isGenerating}
+                    onClick={() => pickedDate && generateWeeklySummary(pickedDate)}
+                  >
+                    Generate Summary
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+            <Button 
+              onClick={() => generateWeeklySummary()}
+              disabled={isGenerating}
+              className="flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{isGenerating ? 'Generating...' : `Generate This ${periodNoun(period)}`}</span>
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -221,9 +244,9 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
               <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No Weekly Summaries Yet</h3>
               <p className="text-muted-foreground mb-6">
-                Complete daily reflections throughout the week, then generate your first weekly summary to see patterns and insights.
+                Complete daily reflections throughout the {period}, then generate your first summary to see patterns and insights.
               </p>
-              <Button onClick={generateWeeklySummary} disabled={isGenerating}>
+              <Button onClick={() => generateWeeklySummary()} disabled={isGenerating}>
                 <Plus className="h-4 w-4 mr-2" />
                 Generate Your First Summary
               </Button>
@@ -241,12 +264,26 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
                     onClick={() => onViewSummary(summary.id)}
                   >
                     <Calendar className="h-5 w-5 text-primary" />
-                    <span>Week of {formatDateRange(summary.weekStartDate, summary.weekEndDate)}</span>
+                    <span>{periodNoun(summaryPeriod(summary))} of {formatDateRange(summary.weekStartDate, summary.weekEndDate)}</span>
                   </CardTitle>
                   <div className="flex items-center space-x-2">
                     <Badge variant="secondary">
-                      {new Date(summary.createdAt).toLocaleDateString()}
+                      {formatInstant(summary.createdAt, timeZone, { dateStyle: 'short' })}
                     </Badge>
+                    {summary.previousVersions && summary.previousVersions.length > 0 && (
+                      <Badge variant="outline">
+                        v{summary.previousVersions.length + 1}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => regenerateSummary(summary)}
+                      disabled={isGenerating}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Regenerate
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -262,7 +299,7 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
                 <div>
                   <h4 className="font-semibold mb-2 flex items-center space-x-2">
                     <FileText className="h-4 w-4 text-accent" />
-                    <span>Weekly Overview</span>
+                    <span>{periodTitle(summaryPeriod(summary))} Overview</span>
                   </h4>
                   <div className="bg-muted p-4 rounded-lg">
                     <p className="whitespace-pre-wrap text-sm">{summary.summaryText}</p>
@@ -275,14 +312,7 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
                     <TrendingUp className="h-4 w-4 text-green-500" />
                     <span>Progress Highlights</span>
                   </h4>
-                  <ul className="space-y-2">
-                    {summary.progressHighlights.map((highlight, index) => (
-                      <li key={index} className="flex items-start space-x-2">
-                        <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></div>
-                        <span className="text-sm">{highlight}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  <SummaryPointList points={summary.progressHighlights} dotClassName="bg-green-500" />
                 </div>
 
                 {/* Challenges */}
@@ -291,30 +321,16 @@ Keep it motivating, specific, and actionable. Focus on patterns and insights acr
                     <Brain className="h-4 w-4 text-orange-500" />
                     <span>Challenges Identified</span>
                   </h4>
-                  <ul className="space-y-2">
-                    {summary.challengesIdentified.map((challenge, index) => (
-                      <li key={index} className="flex items-start space-x-2">
-                        <div className="w-2 h-2 bg-orange-500 rounded-full mt-2 flex-shrink-0"></div>
-                        <span className="text-sm">{challenge}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  <SummaryPointList points={summary.challengesIdentified} dotClassName="bg-orange-500" />
                 </div>
 
                 {/* Recommendations */}
                 <div>
                   <h4 className="font-semibold mb-3 flex items-center space-x-2">
                     <TrendingUp className="h-4 w-4 text-primary" />
-                    <span>Recommendations for Next Week</span>
+                    <span>Recommendations for Next {periodNoun(summaryPeriod(summary))}</span>
                   </h4>
-                  <ul className="space-y-2">
-                    {summary.recommendations.map((rec, index) => (
-                      <li key={index} className="flex items-start space-x-2">
-                        <div className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0"></div>
-                        <span className="text-sm">{rec}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  <SummaryPointList points={summary.recommendations} dotClassName="bg-primary" />
                 </div>
               </CardContent>
             </Card>
@@ -1,29 +1,15 @@
 import { useState, useEffect, useCallback } from 'react'
-import { ArrowLeft, Calendar, FileText, MessageSquare, TrendingUp, Brain } from 'lucide-react'
+import { ArrowLeft, Calendar, FileText, MessageSquare, TrendingUp, Brain, History } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
-
-interface WeeklySummary {
-  id: string
-  weekStartDate: string
-  weekEndDate: string
-  summaryText: string
-  progressHighlights: string[]
-  challengesIdentified: string[]
-  mentalBlocksAddressed: string[]
-  recommendations: string[]
-  createdAt: string
-}
-
-interface ReflectionData {
-  date: string
-  messages: any[]
-  sessionState?: any
-  userId: string
-  updatedAt: number
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { reflectionRepository, summaryRepository, type ReflectionData, type SummaryVersion, type WeeklySummary } from '../storage'
+import { formatDateKey, formatDateRange, formatInstant } from '../lib/dates'
+import { useTimeZone } from '../hooks/use-time-zone'
+import { periodNoun, periodTitle, summaryPeriod } from '../lib/reporting-period'
+import { SummaryPointList } from './SummaryPointList'
 
 interface WeeklySummaryViewerProps {
   user: any
@@ -36,8 +22,10 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
   const [summary, setSummary] = useState<WeeklySummary | null>(null)
   const [weekReflections, setWeekReflections] = useState<ReflectionData[]>([])
   const [loading, setLoading] = useState(true)
+  const [comparedVersion, setComparedVersion] = useState('0')
+  const timeZone = useTimeZone(user?.id)
 
-  const loadSummaryAndReflections = useCallback(() => {
+  const loadSummaryAndReflections = useCallback(async () => {
     if (!user?.id || !summaryId) {
       setLoading(false)
       return
@@ -45,39 +33,16 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
 
     try {
       // Load the specific summary
-      const savedSummaries = localStorage.getItem(`weekly_summaries_${user.id}`)
-      if (savedSummaries) {
-        const summaries = JSON.parse(savedSummaries)
-        const foundSummary = summaries.find((s: WeeklySummary) => s.id === summaryId)
-        
-        if (foundSummary) {
-          setSummary(foundSummary)
-          
-          // Load reflections for this week
-          const weekStart = new Date(foundSummary.weekStartDate)
-          const weekEnd = new Date(foundSummary.weekEndDate)
-          
-          const reflections: ReflectionData[] = []
-          const keys = Object.keys(localStorage).filter(key => 
-            key.startsWith(`reflection_${user.id}_`)
-          )
+      const foundSummary = await summaryRepository.get(user.id, summaryId)
+      if (foundSummary) {
+        setSummary(foundSummary)
 
-          keys.forEach(key => {
-            try {
-              const data = JSON.parse(localStorage.getItem(key) || '{}')
-              if (data.messages && data.messages.length > 0) {
-                const reflectionDate = new Date(data.date)
-                if (reflectionDate >= weekStart && reflectionDate <= weekEnd) {
-                  reflections.push(data)
-                }
-              }
-            } catch (error) {
-              console.error('Error loading reflection:', error)
-            }
-          })
-
-          setWeekReflections(reflections.sort((a, b) => a.date.localeCompare(b.date)))
-        }
+        // Load reflections for this week
+        setWeekReflections(await reflectionRepository.listBetween(
+          user.id,
+          foundSummary.weekStartDate,
+          foundSummary.weekEndDate
+        ))
       }
     } catch (error) {
       console.error('Error loading summary:', error)
@@ -90,21 +55,55 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
     loadSummaryAndReflections()
   }, [loadSummaryAndReflections])
 
-  const formatDateRange = (startDate: string, endDate: string) => {
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
-  }
-
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    return date.toLocaleDateString('en-US', {
+    return formatDateKey(dateString, {
       weekday: 'short',
       month: 'short',
       day: 'numeric'
     })
   }
 
+  const formatGeneratedAt = (createdAt: string) => {
+    return formatInstant(createdAt, timeZone, {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const renderVersion = (version: SummaryVersion, label: string) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{label}</span>
+          <Badge variant="secondary">{formatGeneratedAt(version.createdAt)}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="bg-muted p-4 rounded-lg">
+          <p className="whitespace-pre-wrap text-sm">{version.summaryText}</p>
+        </div>
+        <div>
+          <h4 className="font-semibold text-sm mb-2">Progress Highlights</h4>
+          <SummaryPointList points={version.progressHighlights} dotClassName="bg-green-500" />
+        </div>
+        <div>
+          <h4 className="font-semibold text-sm mb-2">Challenges Identified</h4>
+          <SummaryPointList points={version.challengesIdentified} dotClassName="bg-orange-500" />
+        </div>
+        <div>
+          <h4 className="font-semibold text-sm mb-2">Mental Blocks Addressed</h4>
+          <SummaryPointList points={version.mentalBlocksAddressed} dotClassName="bg-purple-500" />
+        </div>
+        <div>
+          <h4 className="font-semibold text-sm mb-2">Recommendations</h4>
+          <SummaryPointList points={version.recommendations} dotClassName="bg-primary" />
+        </div>
+      </CardContent>
+    </Card>
+  )
+
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto p-6">
@@ -147,6 +146,11 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
     )
   }
 
+  // Newest first, so version numbers count down from the current one
+  const previousVersions = summary.previousVersions ?? []
+  const period = summaryPeriod(summary)
+  const comparedIndex = Math.min(Number(comparedVersion), previousVersions.length - 1)
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       {/* Header */}
@@ -162,15 +166,18 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
         
         <div className="flex items-center space-x-2 mb-2">
           <Calendar className="h-5 w-5 text-primary" />
-          <h1 className="text-2xl font-bold text-foreground">Weekly Summary</h1>
+          <h1 className="text-2xl font-bold text-foreground">{periodTitle(period)} Summary</h1>
         </div>
         <p className="text-muted-foreground">{formatDateRange(summary.weekStartDate, summary.weekEndDate)}</p>
       </div>
 
       <Tabs defaultValue="summary" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className={`grid w-full ${previousVersions.length > 0 ? 'grid-cols-3' : 'grid-cols-2'}`}>
           <TabsTrigger value="summary">Summary & Insights</TabsTrigger>
           <TabsTrigger value="conversations">Daily Conversations ({weekReflections.length})</TabsTrigger>
+          {previousVersions.length > 0 && (
+            <TabsTrigger value="versions">Versions ({previousVersions.length + 1})</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="summary" className="space-y-6">
@@ -179,7 +186,7 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <FileText className="h-5 w-5 text-accent" />
-                <span>Weekly Overview</span>
+                <span>{periodTitle(period)} Overview</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -198,14 +205,11 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <ul className="space-y-2">
-                {summary.progressHighlights.map((highlight, index) => (
-                  <li key={index} className="flex items-start space-x-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></div>
-                    <span className="text-sm">{highlight}</span>
-                  </li>
-                ))}
-              </ul>
+              <SummaryPointList
+                points={summary.progressHighlights}
+                dotClassName="bg-green-500"
+                onViewReflection={onViewReflection}
+              />
             </CardContent>
           </Card>
 
@@ -218,14 +222,28 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <ul className="space-y-2">
-                {summary.challengesIdentified.map((challenge, index) => (
-                  <li key={index} className="flex items-start space-x-2">
-                    <div className="w-2 h-2 bg-orange-500 rounded-full mt-2 flex-shrink-0"></div>
-                    <span className="text-sm">{challenge}</span>
-                  </li>
-                ))}
-              </ul>
+              <SummaryPointList
+                points={summary.challengesIdentified}
+                dotClassName="bg-orange-500"
+                onViewReflection={onViewReflection}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Mental Blocks */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Brain className="h-5 w-5 text-purple-500" />
+                <span>Mental Blocks Addressed</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SummaryPointList
+                points={summary.mentalBlocksAddressed}
+                dotClassName="bg-purple-500"
+                onViewReflection={onViewReflection}
+              />
             </CardContent>
           </Card>
 
@@ -234,18 +252,15 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <TrendingUp className="h-5 w-5 text-primary" />
-                <span>Recommendations for Next Week</span>
+                <span>Recommendations for Next {periodNoun(period)}</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <ul className="space-y-2">
-                {summary.recommendations.map((rec, index) => (
-                  <li key={index} className="flex items-start space-x-2">
-                    <div className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0"></div>
-                    <span className="text-sm">{rec}</span>
-                  </li>
-                ))}
-              </ul>
+              <SummaryPointList
+                points={summary.recommendations}
+                dotClassName="bg-primary"
+                onViewReflection={onViewReflection}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -319,13 +334,40 @@ export function WeeklySummaryViewer({ user, summaryId, onBack, onViewReflection
                   <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <h3 className="text-lg font-semibold mb-2">No Conversations Found</h3>
                   <p className="text-muted-foreground">
-                    No daily reflections were found for this week.
+                    No daily reflections were found for this {period}.
                   </p>
                 </div>
               </CardContent>
             </Card>
           )}
         </TabsContent>
+
+        {previousVersions.length > 0 && (
+          <TabsContent value="versions" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <History className="h-5 w-5 text-primary" />
+                <span className="text-sm text-muted-foreground">Compare the current summary with an earlier version</span>
+              </div>
+              <Select value={String(comparedIndex)} onValueChange={setComparedVersion}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {previousVersions.map((version, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      Version {previousVersions.length - index} · {formatGeneratedAt(version.createdAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderVersion(summary, `Current (Version ${previousVersions.length + 1})`)}
+              {renderVersion(previousVersions[comparedIndex], `Version ${previousVersions.length - comparedIndex}`)}
+            </div>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   )
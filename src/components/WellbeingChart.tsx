@@ -0,0 +1,46 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart'
+import { formatDateKey } from '../lib/dates'
+import { WELLBEING_DIMENSIONS, WELLBEING_DIMENSION_IDS, type WellbeingPoint } from '../lib/wellbeing'
+
+const chartConfig: ChartConfig = {
+  mood: { label: WELLBEING_DIMENSIONS.mood.label, color: 'hsl(var(--chart-1))' },
+  energy: { label: WELLBEING_DIMENSIONS.energy.label, color: 'hsl(var(--chart-2))' },
+  stress: { label: WELLBEING_DIMENSIONS.stress.label, color: 'hsl(var(--chart-3))' }
+}
+
+interface WellbeingChartProps {
+  points: WellbeingPoint[]
+  className?: string
+}
+
+export function WellbeingChart({ points, className }: WellbeingChartProps) {
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <LineChart data={points} margin={{ left: -20, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(date: string) => formatDateKey(date, { month: 'short', day: 'numeric' })}
+        />
+        <YAxis domain={[1, 10]} ticks={[1, 5, 10]} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(date: string) => formatDateKey(date, { weekday: 'short', month: 'short', day: 'numeric' })} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {WELLBEING_DIMENSION_IDS.map((dimension) => (
+          <Line
+            key={dimension}
+            dataKey={dimension}
+            type="monotone"
+            stroke={`var(--color-${dimension})`}
+            strokeWidth={2}
+            dot={points.length < 20}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,38 @@
+import { Slider } from './ui/slider'
+import { Label } from './ui/label'
+import type { WellbeingDimension, WellbeingScores } from '../storage'
+import { WELLBEING_DIMENSIONS, WELLBEING_DIMENSION_IDS } from '../lib/wellbeing'
+
+interface WellbeingSlidersProps {
+  value: WellbeingScores
+  onChange: (value: WellbeingScores) => void
+}
+
+export function WellbeingSliders({ value, onChange }: WellbeingSlidersProps) {
+  const setDimension = (dimension: WellbeingDimension, score: number) => onChange({ ...value, [dimension]: score })
+
+  return (
+    <div className="space-y-4">
+      {WELLBEING_DIMENSION_IDS.map((dimension) => (
+        <div key={dimension}>
+          <div className="flex items-center justify-between mb-2">
+            <Label htmlFor={`wellbeing-${dimension}`}>{WELLBEING_DIMENSIONS[dimension].label}</Label>
+            <span className="text-sm font-medium">{value[dimension]}/10</span>
+          </div>
+          <Slider
+            id={`wellbeing-${dimension}`}
+            min={1}
+            max={10}
+            step={1}
+            value={[value[dimension]]}
+            onValueChange={([score]) => setDimension(dimension, score)}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            <span>{WELLBEING_DIMENSIONS[dimension].low}</span>
+            <span>{WELLBEING_DIMENSIONS[dimension].high}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+import { resolveReportingSettings } from '../lib/reporting-period'
+import { profileRepository } from '../storage'
+
+// The founder's week start and reporting period, defaulting to Sunday-start weeks until the profile loads
+export function useReportingSettings(userId?: string) {
+  const [settings, setSettings] = useState(() => resolveReportingSettings(null))
+
+  useEffect(() => {
+    if (!userId) return
+
+    const loadSettings = async () => {
+      const profile = await profileRepository.get(userId)
+      setSettings(resolveReportingSettings(profile))
+    }
+
+    loadSettings()
+    return profileRepository.subscribe(userId, loadSettings)
+  }, [userId])
+
+  return settings
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { getBrowserTimeZone } from '../lib/dates'
+import { supportRegionFor } from '../lib/safety'
+import { profileRepository } from '../storage'
+
+// The region whose support lines the founder sees, guessed from the browser's timezone until the profile loads
+export function useSupportRegion(userId?: string) {
+  const [region, setRegion] = useState(() => supportRegionFor(undefined, getBrowserTimeZone()))
+
+  useEffect(() => {
+    if (!userId) return
+
+    const loadRegion = async () => {
+      const profile = await profileRepository.get(userId)
+      setRegion(supportRegionFor(profile?.supportRegion, profile?.timeZone || getBrowserTimeZone()))
+    }
+
+    loadRegion()
+    return profileRepository.subscribe(userId, loadRegion)
+  }, [userId])
+
+  return region
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+import { getBrowserTimeZone, resolveTimeZone } from '../lib/dates'
+import { profileRepository } from '../storage'
+
+// The founder's configured timezone, falling back to the browser's until the profile loads
+export function useTimeZone(userId?: string) {
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone)
+
+  useEffect(() => {
+    if (!userId) return
+
+    const loadTimeZone = async () => {
+      const profile = await profileRepository.get(userId)
+      setTimeZone(resolveTimeZone(profile?.timeZone))
+    }
+
+    loadTimeZone()
+    return profileRepository.subscribe(userId, loadTimeZone)
+  }, [userId])
+
+  return timeZone
+}
@@ -0,0 +1,47 @@
+import { vi } from 'vitest'
+import { setAIProvider } from '../../ai'
+import { startClock } from '../session-clock'
+import type { Message, SessionState } from '../../storage'
+
+export const START = Date.UTC(2026, 9, 19, 8, 0)
+export const MINUTE = 1000 * 60
+
+// A localStorage whose own keys are the stored items, the way the storage backend lists them
+function createLocalStorage() {
+  const store: Record<string, string> = {}
+  const methods = {
+    getItem: (key: string) => (key in store ? store[key] : null),
+    setItem: (key: string, value: string) => { store[key] = String(value) },
+    removeItem: (key: string) => { delete store[key] }
+  }
+  for (const [name, value] of Object.entries(methods)) Object.defineProperty(store, name, { value })
+  return store
+}
+
+/**
+ * Routes every AI call through the mock provider, with storage in memory and
+ * the sync queue offline so nothing reaches the network. Call in beforeEach
+ * and undo with vi.unstubAllGlobals().
+ */
+export function useMockProvider() {
+  vi.stubGlobal('localStorage', createLocalStorage())
+  vi.stubGlobal('navigator', { onLine: false })
+  setAIProvider('mock')
+}
+
+// A standard daily session, started at START with its clock running
+export const session = (overrides: Partial<SessionState> = {}): SessionState => ({
+  startTime: START,
+  questionCount: 0,
+  maxQuestions: 5,
+  maxMinutes: 20,
+  isComplete: false,
+  topics: [],
+  topicCoverage: {},
+  currentFocus: null,
+  ...startClock(START),
+  ...overrides
+})
+
+export const message = (id: string, role: Message['role'], content: string, timestamp = START): Message =>
+  ({ id, role, content, timestamp })
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAI } from '../ai'
+import { commitmentRepository, type Commitment, type ReflectionData } from '../storage'
+import { message, START, useMockProvider } from './__fixtures__/mock-provider'
+import {
+  buildFollowUpOpening,
+  captureCommitments,
+  getCompletionStats,
+  inferOutcomes,
+  recordOutcomes,
+  takeFollowUps
+} from './commitments'
+
+const commitment = (id: string, sourceDate: string, text = `Commitment ${id}`): Commitment => ({
+  id,
+  text,
+  sourceDate,
+  sourceSessionId: `${sourceDate}_1`,
+  status: 'open',
+  createdAt: `${sourceDate}T20:00:00.000Z`,
+  updatedAt: `${sourceDate}T20:00:00.000Z`
+})
+
+const reflection = (overrides: Partial<ReflectionData> = {}): ReflectionData => ({
+  id: '2026-10-18_1',
+  date: '2026-10-18',
+  userId: 'user-1',
+  messages: [
+    message('1', 'assistant', 'What will you do next?'),
+    message('2', 'user', 'Good day overall. I will email ten customers tomorrow. Next week I am fixing the invoice bug.')
+  ],
+  updatedAt: START,
+  ...overrides
+})
+
+beforeEach(useMockProvider)
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('captureCommitments', () => {
+  it("saves the wrap-up's commitments once per session", async () => {
+    const session = reflection()
+    const wrapUp = await getAI().writeWrapUp(session.messages, 'daily_recap', false)
+
+    const captured = await captureCommitments({ ...session, wrapUp })
+    expect(captured.map(c => c.text)).toEqual(['I will email ten customers tomorrow.', 'Next week I am fixing the invoice bug.'])
+    expect(captured[0]).toMatchObject({ id: '2026-10-18_1_0', sourceDate: '2026-10-18', status: 'open' })
+
+    expect(await captureCommitments({ ...session, wrapUp })).toEqual([])
+    expect(await commitmentRepository.list('user-1')).toHaveLength(2)
+  })
+
+  it("falls back to the assessment's commitments without a wrap-up", async () => {
+    const session = reflection()
+    const assessment = await getAI().scoreReflection(session)
+    expect((await captureCommitments({ ...session, assessment })).map(c => c.text)).toEqual(assessment.commitments)
+  })
+})
+
+describe('takeFollowUps', () => {
+  beforeEach(async () => {
+    await commitmentRepository.saveMany('user-1', [
+      commitment('old', '2026-10-05'),
+      commitment('a', '2026-10-16'),
+      ...['b1', 'b2', 'b3', 'b4', 'b5'].map(id => commitment(id, '2026-10-18'))
+    ])
+  })
+
+  it('asks about at most three open commitments from the latest day', async () => {
+    const followUps = await takeFollowUps('user-1', 'session-1', '2026-10-19')
+    expect(followUps.map(c => c.id)).toEqual(['b1', 'b2', 'b3'])
+    expect(followUps.every(c => c.followedUpSessionId === 'session-1')).toBe(true)
+  })
+
+  it('asks about each commitment only once', async () => {
+    await takeFollowUps('user-1', 'session-1', '2026-10-19')
+    expect((await takeFollowUps('user-1', 'session-2', '2026-10-19')).map(c => c.id)).toEqual(['b4', 'b5'])
+    expect((await takeFollowUps('user-1', 'session-3', '2026-10-19')).map(c => c.id)).toEqual(['a'])
+    expect(await takeFollowUps('user-1', 'session-4', '2026-10-19')).toEqual([])
+  })
+
+  it('expires open commitments older than a week', async () => {
+    await takeFollowUps('user-1', 'session-1', '2026-10-19')
+    const stored = await commitmentRepository.list('user-1')
+    expect(stored.find(c => c.id === 'old')?.status).toBe('expired')
+    expect(stored.find(c => c.id === 'a')?.status).toBe('open')
+  })
+
+  it('opens by listing the commitments it follows up on', async () => {
+    const opening = buildFollowUpOpening(await takeFollowUps('user-1', 'session-1', '2026-10-19'))
+    expect(opening).toContain('- Commitment b1\n- Commitment b2\n- Commitment b3')
+  })
+})
+
+describe('resolving follow-ups with the mock provider', () => {
+  const followUps = [
+    commitment('c1', '2026-10-18', 'Email ten customers about pricing'),
+    commitment('c2', '2026-10-18', 'Fix the invoice bug'),
+    commitment('c3', '2026-10-18', 'Draft the investor update')
+  ]
+
+  it('infers an outcome for each commitment the answer addresses and leaves the rest', async () => {
+    const outcomes = await inferOutcomes(followUps, 'I emailed the customers and sent pricing to all ten. The invoice bug is halfway there.')
+    expect(outcomes).toEqual({ c1: 'done', c2: 'partial' })
+  })
+
+  it('reads a single commitment from the whole answer', async () => {
+    expect(await inferOutcomes(followUps.slice(2), 'Gave up on it this week.')).toEqual({ c3: 'dropped' })
+  })
+
+  it('records the outcomes and counts partial progress as half', async () => {
+    await commitmentRepository.saveMany('user-1', followUps)
+    const resolved = await recordOutcomes('user-1', followUps, { c1: 'done', c2: 'partial' }, '2026-10-19')
+    expect(resolved.map(c => c.resolvedDate)).toEqual(['2026-10-19', '2026-10-19'])
+
+    const stats = getCompletionStats(await commitmentRepository.list('user-1'))
+    expect(stats).toEqual({ open: 1, done: 1, partial: 1, dropped: 0, completionRate: 75 })
+  })
+
+  it('has no completion rate before anything is resolved', () => {
+    expect(getCompletionStats(followUps).completionRate).toBeNull()
+  })
+})
@@ -0,0 +1,111 @@
+import { getAI } from '../ai'
+import { daysBetween } from './dates'
+import { commitmentRepository, type Commitment, type CommitmentStatus, type ReflectionData } from '../storage'
+
+export type CommitmentOutcome = Exclude<CommitmentStatus, 'open' | 'expired'>
+
+export const COMMITMENT_OUTCOMES: CommitmentOutcome[] = ['done', 'partial', 'dropped']
+
+/**
+ * Adds the commitments made in a completed reflection to the commitment list.
+ * The wrap-up's commitments are preferred; the assessment's are used when the
+ * wrap-up could not be written. A session is only captured once.
+ */
+export async function captureCommitments(reflection: ReflectionData) {
+  const texts = reflection.wrapUp?.commitments ?? reflection.assessment?.commitments ?? []
+  if (texts.length === 0) return []
+
+  const existing = await commitmentRepository.list(reflection.userId)
+  if (existing.some(c => (c.sourceSessionId ?? c.sourceDate) === reflection.id)) return []
+
+  const now = new Date().toISOString()
+  const commitments: Commitment[] = texts.map((text, index) => ({
+    id: `${reflection.id}_${index}`,
+    text,
+    sourceDate: reflection.date,
+    sourceSessionId: reflection.id,
+    status: 'open',
+    createdAt: now,
+    updatedAt: now
+  }))
+  await commitmentRepository.saveMany(reflection.userId, commitments)
+  return commitments
+}
+
+// A session opens by asking about at most this many commitments
+const MAX_FOLLOW_UPS = 3
+// Open commitments older than this are no longer followed up on
+const COMMITMENT_EXPIRY_DAYS = 7
+
+/**
+ * Picks the commitments a new session should open by asking about: open ones
+ * not asked about before, from the most recent day that has any, oldest first
+ * and capped at MAX_FOLLOW_UPS. Open commitments past COMMITMENT_EXPIRY_DAYS
+ * are marked expired, and the picked ones are marked as followed up in this
+ * session, so nothing is asked about twice.
+ */
+export async function takeFollowUps(userId: string, sessionId: string, today: string) {
+  const open = await commitmentRepository.listOpen(userId)
+  const expired = open
+    .filter(c => daysBetween(c.sourceDate, today) > COMMITMENT_EXPIRY_DAYS)
+    .map(c => ({ ...c, status: 'expired' as const }))
+
+  const candidates = open.filter(c => !c.followedUpSessionId && !expired.some(e => e.id === c.id))
+  const latestDate = candidates.reduce((latest, c) => (c.sourceDate > latest ? c.sourceDate : latest), '')
+  const followUps = candidates
+    .filter(c => c.sourceDate === latestDate)
+    .slice(0, MAX_FOLLOW_UPS)
+    .map(c => ({ ...c, followedUpSessionId: sessionId }))
+
+  await commitmentRepository.saveMany(userId, [...expired, ...followUps])
+  return followUps
+}
+
+// The first question of a session that follows up on open commitments
+export function buildFollowUpOpening(commitments: Commitment[]) {
+  const list = commitments.map(c => `- ${c.text}`).join('\n')
+  return `Welcome back! Before we dive in, let's check in on what you committed to last time:
+
+${list}
+
+How did each of these go? Did you get them done, make partial progress, or decide to drop any of them?`
+}
+
+export async function recordOutcomes(
+  userId: string,
+  commitments: Commitment[],
+  outcomes: Record<string, CommitmentOutcome>,
+  resolvedDate: string
+) {
+  const resolved = commitments
+    .filter(c => outcomes[c.id])
+    .map(c => ({ ...c, status: outcomes[c.id], resolvedDate }))
+  await commitmentRepository.saveMany(userId, resolved)
+  return resolved
+}
+
+/**
+ * Reads the founder's follow-up answer and infers an outcome for each
+ * commitment it clearly addresses. Commitments the answer leaves unclear are
+ * left out so they can be resolved by hand.
+ */
+export function inferOutcomes(commitments: Commitment[], answer: string): Promise<Record<string, CommitmentOutcome>> {
+  return getAI().inferOutcomes(commitments, answer)
+}
+
+// Completion over resolved commitments; partial progress counts as half
+export function getCompletionStats(commitments: Commitment[]) {
+  const count = (status: CommitmentStatus) => commitments.filter(c => c.status === status).length
+  const done = count('done')
+  const partial = count('partial')
+  const dropped = count('dropped')
+  const resolved = done + partial + dropped
+
+  return {
+    open: count('open'),
+    done,
+    partial,
+    dropped,
+    completionRate: resolved > 0 ? Math.round(((done + partial / 2) / resolved) * 100) : null
+  }
+}
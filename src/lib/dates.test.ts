@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addDays,
+  daysBetween,
+  getMonthRange,
+  getQuarterRange,
+  getSprintRange,
+  getWeekRange,
+  toDateKey
+} from './dates'
+
+describe('toDateKey', () => {
+  it('uses the calendar day in the given timezone, not the UTC one', () => {
+    const instant = Date.UTC(2026, 0, 15, 3, 0)
+    expect(toDateKey(instant, 'UTC')).toBe('2026-01-15')
+    expect(toDateKey(instant, 'America/Los_Angeles')).toBe('2026-01-14')
+    expect(toDateKey(instant, 'Asia/Tokyo')).toBe('2026-01-15')
+  })
+
+  it('follows the offset change when clocks go forward', () => {
+    // New York moves from UTC-5 to UTC-4 at 07:00 UTC on 8 March 2026
+    expect(toDateKey(Date.UTC(2026, 2, 8, 4, 30), 'America/New_York')).toBe('2026-03-07')
+    expect(toDateKey(Date.UTC(2026, 2, 9, 3, 30), 'America/New_York')).toBe('2026-03-08')
+    expect(toDateKey(Date.UTC(2026, 2, 9, 4, 30), 'America/New_York')).toBe('2026-03-09')
+  })
+
+  it('follows the offset change when clocks go back', () => {
+    // London moves from UTC+1 to UTC+0 at 01:00 UTC on 25 October 2026
+    expect(toDateKey(Date.UTC(2026, 9, 24, 23, 30), 'Europe/London')).toBe('2026-10-25')
+    expect(toDateKey(Date.UTC(2026, 9, 25, 23, 30), 'Europe/London')).toBe('2026-10-25')
+  })
+
+  it('handles southern hemisphere daylight saving', () => {
+    // Sydney leaves UTC+11 for UTC+10 on 5 April 2026
+    expect(toDateKey(Date.UTC(2026, 3, 4, 13, 30), 'Australia/Sydney')).toBe('2026-04-05')
+    expect(toDateKey(Date.UTC(2026, 3, 5, 13, 30), 'Australia/Sydney')).toBe('2026-04-05')
+  })
+})
+
+describe('day arithmetic', () => {
+  it('never skips or repeats a day across DST changes', () => {
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08')
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09')
+    expect(addDays('2026-10-25', -1)).toBe('2026-10-24')
+    expect(daysBetween('2026-03-01', '2026-03-31')).toBe(30)
+    expect(daysBetween('2026-10-31', '2026-10-01')).toBe(-30)
+  })
+
+  it('crosses month, leap day and year ends', () => {
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29')
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01')
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01')
+  })
+})
+
+describe('getWeekRange', () => {
+  // 21 October 2026 is a Wednesday
+  it('starts the week on Sunday by default', () => {
+    expect(getWeekRange('2026-10-21')).toEqual({ start: '2026-10-18', end: '2026-10-24' })
+  })
+
+  it.each([
+    [1, { start: '2026-10-19', end: '2026-10-25' }],
+    [3, { start: '2026-10-21', end: '2026-10-27' }],
+    [4, { start: '2026-10-15', end: '2026-10-21' }],
+    [6, { start: '2026-10-17', end: '2026-10-23' }]
+  ])('honours a week starting on day %i', (weekStartsOn, range) => {
+    expect(getWeekRange('2026-10-21', weekStartsOn)).toEqual(range)
+  })
+
+  it('spans the turn of the year', () => {
+    expect(getWeekRange('2027-01-01', 1)).toEqual({ start: '2026-12-28', end: '2027-01-03' })
+  })
+
+  it('keeps seven days in a week with a DST change', () => {
+    expect(getWeekRange('2026-03-10')).toEqual({ start: '2026-03-08', end: '2026-03-14' })
+  })
+})
+
+describe('getSprintRange', () => {
+  it('repeats two-week sprints from the anchor', () => {
+    expect(getSprintRange('2026-01-05', '2026-01-05')).toEqual({ start: '2026-01-05', end: '2026-01-18' })
+    expect(getSprintRange('2026-01-18', '2026-01-05')).toEqual({ start: '2026-01-05', end: '2026-01-18' })
+    expect(getSprintRange('2026-01-19', '2026-01-05')).toEqual({ start: '2026-01-19', end: '2026-02-01' })
+  })
+
+  it('works backwards for days before the anchor', () => {
+    expect(getSprintRange('2026-01-04', '2026-01-05')).toEqual({ start: '2025-12-22', end: '2026-01-04' })
+  })
+
+  it('supports other sprint lengths', () => {
+    expect(getSprintRange('2026-01-12', '2026-01-05', 7)).toEqual({ start: '2026-01-12', end: '2026-01-18' })
+  })
+})
+
+describe('getMonthRange', () => {
+  it.each([
+    ['2026-01-01', { start: '2026-01-01', end: '2026-01-31' }],
+    ['2026-02-14', { start: '2026-02-01', end: '2026-02-28' }],
+    ['2028-02-14', { start: '2028-02-01', end: '2028-02-29' }],
+    ['2026-04-30', { start: '2026-04-01', end: '2026-04-30' }],
+    ['2026-12-31', { start: '2026-12-01', end: '2026-12-31' }]
+  ])('covers the whole month of %s', (dateKey, range) => {
+    expect(getMonthRange(dateKey)).toEqual(range)
+  })
+})
+
+describe('getQuarterRange', () => {
+  it.each([
+    ['2026-01-01', { start: '2026-01-01', end: '2026-03-31' }],
+    ['2026-03-31', { start: '2026-01-01', end: '2026-03-31' }],
+    ['2026-04-01', { start: '2026-04-01', end: '2026-06-30' }],
+    ['2026-09-30', { start: '2026-07-01', end: '2026-09-30' }],
+    ['2026-12-31', { start: '2026-10-01', end: '2026-12-31' }]
+  ])('covers the quarter containing %s', (dateKey, range) => {
+    expect(getQuarterRange(dateKey)).toEqual(range)
+  })
+})
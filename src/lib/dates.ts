@@ -0,0 +1,127 @@
+/**
+ * Calendar-day helpers. Reflections are keyed by a local calendar day
+ * (`YYYY-MM-DD`) in the founder's IANA timezone, never by the UTC date that
+ * `toISOString()` would give. Day keys are pure calendar values: arithmetic on
+ * them is done in UTC so DST shifts can never skip or repeat a day.
+ */
+
+export function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Falls back to the browser timezone when the configured one is missing or unknown
+export function resolveTimeZone(timeZone?: string | null) {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone()
+}
+
+export function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [getBrowserTimeZone(), 'UTC']
+}
+
+// The calendar day an instant falls on in the given timezone
+export function toDateKey(instant: Date | number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(instant)
+  const get = (type: string) => parts.find(part => part.type === type)?.value
+  return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+export function todayKey(timeZone: string) {
+  return toDateKey(Date.now(), timeZone)
+}
+
+function parseDateKey(dateKey: string) {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatKey(date: Date) {
+  return date.toISOString().split('T')[0]
+}
+
+export function addDays(dateKey: string, days: number) {
+  const date = parseDateKey(dateKey)
+  date.setUTCDate(date.getUTCDate() + days)
+  return formatKey(date)
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function getDayOfWeek(dateKey: string) {
+  return parseDateKey(dateKey).getUTCDay()
+}
+
+export function daysBetween(fromKey: string, toKey: string) {
+  return Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / (1000 * 60 * 60 * 24))
+}
+
+export function startOfWeek(dateKey: string, weekStartsOn = 0) {
+  const offset = (getDayOfWeek(dateKey) - weekStartsOn + 7) % 7
+  return addDays(dateKey, -offset)
+}
+
+export function getWeekRange(dateKey: string, weekStartsOn = 0) {
+  const start = startOfWeek(dateKey, weekStartsOn)
+  return { start, end: addDays(start, 6) }
+}
+
+// The sprint containing dateKey, for sprints of `length` days repeating from anchorKey
+export function getSprintRange(dateKey: string, anchorKey: string, length = 14) {
+  const offset = ((daysBetween(anchorKey, dateKey) % length) + length) % length
+  const start = addDays(dateKey, -offset)
+  return { start, end: addDays(start, length - 1) }
+}
+
+export function getMonthRange(dateKey: string) {
+  const [year, month] = dateKey.split('-').map(Number)
+  return {
+    start: formatKey(new Date(Date.UTC(year, month - 1, 1))),
+    end: formatKey(new Date(Date.UTC(year, month, 0)))
+  }
+}
+
+export function getQuarterRange(dateKey: string) {
+  const [year, month] = dateKey.split('-').map(Number)
+  const firstMonth = Math.floor((month - 1) / 3) * 3
+  return {
+    start: formatKey(new Date(Date.UTC(year, firstMonth, 1))),
+    end: formatKey(new Date(Date.UTC(year, firstMonth + 3, 0)))
+  }
+}
+
+// Date pickers work in browser-local dates; these convert without shifting the day
+export function fromPickerDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function toPickerDate(dateKey: string) {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Displays a day key as that calendar day regardless of the viewer's timezone
+export function formatDateKey(dateKey: string, options: Intl.DateTimeFormatOptions) {
+  return parseDateKey(dateKey).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+export function formatDateRange(startKey: string, endKey: string) {
+  return `${formatDateKey(startKey, { month: 'short', day: 'numeric' })} - ${formatDateKey(endKey, { month: 'short', day: 'numeric', year: 'numeric' })}`
+}
+
+// Displays an instant (timestamp or ISO string) in the founder's timezone
+export function formatInstant(instant: Date | number | string, timeZone: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(instant).toLocaleString('en-US', { ...options, timeZone })
+}
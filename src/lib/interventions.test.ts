@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAI } from '../ai'
+import type { Intervention, Message, SessionState } from '../storage'
+import { message, session, useMockProvider } from './__fixtures__/mock-provider'
+import {
+  activeIntervention,
+  canStartIntervention,
+  completeIntervention,
+  detectAnswerBlocks,
+  EXERCISES,
+  isExerciseAnswered,
+  nextExerciseStep,
+  pickIntervention,
+  recordStepAsked,
+  skipIntervention,
+  startIntervention,
+  writeExerciseOutcome
+} from './interventions'
+import { EMPTY_ANALYSIS } from './topic-coverage'
+
+const fearful = message('2', 'user', "I'm afraid the launch will fail. What if it flops in front of everyone?")
+
+beforeEach(useMockProvider)
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+// Starts an exercise from the mock's reading of an answer
+async function startFrom(answer: Message, state = session({ questionCount: 1 })) {
+  const detection = pickIntervention(state, await detectAnswerBlocks(answer))
+  return detection ? startIntervention(state, detection) : state
+}
+
+// Asks the current step through the mock, the way a turn does
+async function askStep(state: SessionState, intervention: Intervention) {
+  const { text } = await getAI().generateQuestion({ messages: [], session: state, analysis: EMPTY_ANALYSIS, intervention }, () => {})
+  return { text, state: recordStepAsked(state, intervention) }
+}
+
+describe('starting an exercise', () => {
+  it('matches a clear block to its exercise', async () => {
+    const exercise = activeIntervention(await startFrom(fearful))
+    expect(exercise).toMatchObject({
+      id: '2_fear_of_failure',
+      block: 'fear_of_failure',
+      exercise: 'worst_best_case',
+      triggerMessageId: '2',
+      stepsAsked: 0,
+      status: 'active'
+    })
+  })
+
+  it('lets a passing mention go by', async () => {
+    const state = await startFrom(message('2', 'user', 'I was a bit scared before the call.'))
+    expect(state.interventions).toBeUndefined()
+  })
+
+  it('runs no exercise in the closing stretch, after one already ran, or once the session is flagged', async () => {
+    expect(canStartIntervention(session({ questionCount: 3 }))).toBe(false)
+
+    const finished = await startFrom(fearful)
+    const done = skipIntervention(finished, activeIntervention(finished)!)
+    expect(canStartIntervention(done)).toBe(false)
+
+    const flagged = session({ questionCount: 1, safetyFlag: { messageId: '2', flaggedAt: '2026-10-19T08:00:00.000Z' } })
+    expect(canStartIntervention(flagged)).toBe(false)
+  })
+
+  it('finds nothing when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(getAI(), 'detectBlocks').mockRejectedValue(new Error('offline'))
+    expect(await detectAnswerBlocks(fearful)).toEqual([])
+  })
+})
+
+describe('running an exercise', () => {
+  it('asks each step in order, opening with the intro', async () => {
+    let state = await startFrom(fearful)
+    const { intro, steps } = EXERCISES.worst_best_case
+    const asked: string[] = []
+
+    while (!isExerciseAnswered(activeIntervention(state)!)) {
+      const step = await askStep(state, activeIntervention(state)!)
+      asked.push(step.text)
+      state = step.state
+    }
+
+    expect(asked).toEqual([`${intro} ${steps[0]}`, steps[1], steps[2]])
+  })
+
+  it('streams the step the founder sees', async () => {
+    const state = await startFrom(fearful)
+    const intervention = activeIntervention(state)!
+    const chunks: string[] = []
+    await getAI().generateQuestion({ messages: [], session: state, analysis: EMPTY_ANALYSIS, intervention }, chunk => chunks.push(chunk))
+    expect(chunks.join('')).toBe(nextExerciseStep(intervention))
+  })
+
+  it("keeps the founder's last answer and next step as the outcome", async () => {
+    const state = await startFrom(fearful)
+    const intervention = activeIntervention(state)!
+    const messages = [
+      message('1', 'assistant', 'How did the week go?'),
+      fearful,
+      message('3', 'assistant', nextExerciseStep(intervention)),
+      message('4', 'user', 'Worst case nobody signs up and I learn why.'),
+      message('5', 'assistant', EXERCISES.worst_best_case.steps[2]),
+      message('6', 'user', 'Most likely a few sign ups. I will email ten customers tomorrow.')
+    ]
+
+    const outcome = await writeExerciseOutcome(messages, intervention)
+    expect(outcome).toMatchObject({ insight: 'Most likely a few sign ups.', nextStep: 'I will email ten customers tomorrow.' })
+
+    const completed = completeIntervention(state, intervention, outcome)
+    expect(activeIntervention(completed)).toBeNull()
+    expect(completed.interventions?.[0].status).toBe('completed')
+  })
+})
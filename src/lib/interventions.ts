@@ -0,0 +1,169 @@
+import { getAI } from '../ai'
+import type {
+  BlockDetection,
+  Intervention,
+  InterventionExercise,
+  InterventionOutcome,
+  MentalBlockId,
+  Message,
+  SessionState
+} from '../storage'
+import { isClosingStretch } from './session-length'
+
+export interface ExerciseInfo {
+  name: string
+  description: string // what the exercise is for, given to the coach
+  intro: string // how the coach switches into it when writing offline
+  steps: string[] // one question per step, in order
+}
+
+export const EXERCISES: Record<InterventionExercise, ExerciseInfo> = {
+  reframe: {
+    name: 'Cognitive Reframing',
+    description: 'Name the unhelpful thought, test it against the evidence and restate it in a way that is just as true but more useful',
+    intro: "Let's pause on that thought for a moment.",
+    steps: [
+      "What's the exact thought going through your head, in one sentence?",
+      'What evidence do you have for that thought, and what evidence goes against it?',
+      'How could you restate it in a way that is just as honest but more helpful?'
+    ]
+  },
+  worst_best_case: {
+    name: 'Worst Case / Best Case',
+    description: 'Make the feared outcome concrete, set it against the best and most likely outcomes, and plan for the worst',
+    intro: "Let's look at that from a few angles.",
+    steps: [
+      "What's the realistic worst case here, and what would you do if it happened?",
+      "Now the best case: what's the best that could come of it?",
+      "What's the most likely outcome, and what does that mean you should do?"
+    ]
+  },
+  five_whys: {
+    name: 'Five Whys',
+    description: 'Ask why repeatedly to get from the symptom to the root cause; kept to three rounds so the session moves on',
+    intro: "Let's dig into what's underneath that.",
+    steps: [
+      'Why do you think that is happening?',
+      'And why is that?',
+      'One level deeper: what do you think is really at the root of it?'
+    ]
+  },
+  tiny_next_step: {
+    name: 'Tiny Next Step',
+    description: 'Shrink the avoided task to a first step small enough to start today and pin down when it happens',
+    intro: "Let's make this smaller.",
+    steps: [
+      "What's the smallest possible step you could take on this, something under 15 minutes?",
+      'When exactly will you do it, and what might get in the way?'
+    ]
+  }
+}
+
+// The exercise each block gets, chosen for what usually unsticks it
+export const BLOCK_EXERCISES: Record<MentalBlockId, InterventionExercise> = {
+  perfectionism: 'worst_best_case',
+  imposter_syndrome: 'reframe',
+  fear_of_selling: 'tiny_next_step',
+  decision_paralysis: 'worst_best_case',
+  burnout: 'five_whys',
+  fear_of_failure: 'worst_best_case',
+  procrastination: 'tiny_next_step',
+  isolation: 'reframe'
+}
+
+// Passing mentions do not interrupt the session
+const MIN_INTENSITY = 2
+// One exercise per session keeps the reflection from turning into a workshop
+const MAX_INTERVENTIONS = 1
+
+export function activeIntervention(session: SessionState) {
+  return session.interventions?.find(i => i.status === 'active') ?? null
+}
+
+// The question for the exercise's next step; also what the coach asks when writing offline
+export function nextExerciseStep(intervention: Intervention) {
+  const { intro, steps } = EXERCISES[intervention.exercise]
+  const step = steps[Math.min(intervention.stepsAsked, steps.length - 1)]
+  return intervention.stepsAsked === 0 ? `${intro} ${step}` : step
+}
+
+// True once the founder has answered every step
+export function isExerciseAnswered(intervention: Intervention) {
+  return intervention.stepsAsked >= EXERCISES[intervention.exercise].steps.length
+}
+
+// Whether the session has room for an exercise: none running, none used up, not closing out, not flagged for distress
+export function canStartIntervention(session: SessionState) {
+  return !activeIntervention(session)
+    && !session.safetyFlag
+    && !isClosingStretch(session)
+    && (session.interventions ?? []).length < MAX_INTERVENTIONS
+}
+
+// The detection worth an exercise, if any: the strongest one clear enough to act on
+export function pickIntervention(session: SessionState, detections: BlockDetection[]) {
+  if (!canStartIntervention(session)) return null
+  return [...detections]
+    .filter(d => d.intensity >= MIN_INTENSITY)
+    .sort((a, b) => b.intensity - a.intensity)[0] ?? null
+}
+
+export function startIntervention(session: SessionState, detection: BlockDetection): SessionState {
+  const intervention: Intervention = {
+    id: `${detection.messageId}_${detection.block}`,
+    block: detection.block,
+    exercise: BLOCK_EXERCISES[detection.block],
+    triggerMessageId: detection.messageId,
+    evidence: detection.evidence,
+    stepsAsked: 0,
+    status: 'active'
+  }
+  return { ...session, interventions: [...(session.interventions ?? []), intervention] }
+}
+
+const updateIntervention = (session: SessionState, id: string, change: Partial<Intervention>): SessionState => ({
+  ...session,
+  interventions: (session.interventions ?? []).map(i => i.id === id ? { ...i, ...change } : i)
+})
+
+export function recordStepAsked(session: SessionState, intervention: Intervention) {
+  return updateIntervention(session, intervention.id, { stepsAsked: intervention.stepsAsked + 1 })
+}
+
+export function completeIntervention(session: SessionState, intervention: Intervention, outcome: InterventionOutcome) {
+  return updateIntervention(session, intervention.id, { status: 'completed', outcome })
+}
+
+export function skipIntervention(session: SessionState, intervention: Intervention) {
+  return updateIntervention(session, intervention.id, { status: 'skipped' })
+}
+
+// The exercise's own turns, from the answer that triggered it onwards
+export function exerciseMessages(messages: Message[], intervention: Intervention) {
+  const start = messages.findIndex(m => m.id === intervention.triggerMessageId)
+  return start >= 0 ? messages.slice(start) : messages
+}
+
+// Blocks in a single answer; a failed check just means no exercise this turn
+export async function detectAnswerBlocks(answer: Message) {
+  try {
+    return (await getAI().detectBlocks([answer])).detections
+  } catch (error) {
+    console.error('Error detecting mental blocks:', error)
+    return []
+  }
+}
+
+/**
+ * Writes what the founder took away from a finished exercise. Without the AI
+ * the founder's last answer stands as the insight.
+ */
+export async function writeExerciseOutcome(messages: Message[], intervention: Intervention): Promise<InterventionOutcome> {
+  try {
+    return await getAI().summarizeIntervention(messages, intervention)
+  } catch (error) {
+    console.error('Error summarizing exercise:', error)
+    const answer = [...messages].reverse().find(m => m.role === 'user')?.content ?? ''
+    return { insight: answer.trim(), completedAt: new Date().toISOString() }
+  }
+}
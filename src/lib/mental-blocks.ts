@@ -0,0 +1,171 @@
+import { getAI } from '../ai'
+import {
+  reflectionRepository,
+  type BlockDetection,
+  type MentalBlockId,
+  type Message,
+  type ReflectionData
+} from '../storage'
+
+export interface MentalBlockInfo {
+  label: string
+  description: string // what the block sounds like, given to the classifier
+}
+
+export const MENTAL_BLOCKS: Record<MentalBlockId, MentalBlockInfo> = {
+  perfectionism: {
+    label: 'Perfectionism',
+    description: 'Holding work back until it is flawless, polishing instead of shipping'
+  },
+  imposter_syndrome: {
+    label: 'Imposter Syndrome',
+    description: 'Feeling unqualified or like a fraud next to other founders, investors or the team'
+  },
+  fear_of_selling: {
+    label: 'Fear of Selling',
+    description: 'Avoiding sales calls, pricing conversations, asking for money or promoting the product'
+  },
+  decision_paralysis: {
+    label: 'Decision Paralysis',
+    description: 'Stuck between options, waiting for more information, unable to commit to a direction'
+  },
+  burnout: {
+    label: 'Burnout',
+    description: 'Exhaustion, lost motivation or cynicism from sustained overwork'
+  },
+  fear_of_failure: {
+    label: 'Fear of Failure',
+    description: 'Worry that the company or a launch will fail, holding back to avoid being judged'
+  },
+  procrastination: {
+    label: 'Procrastination',
+    description: 'Putting off important tasks, usually uncomfortable ones, in favour of easier work'
+  },
+  isolation: {
+    label: 'Isolation',
+    description: 'Feeling alone with decisions, lacking support from a cofounder, peers or mentors'
+  }
+}
+
+export const MENTAL_BLOCK_IDS = Object.keys(MENTAL_BLOCKS) as MentalBlockId[]
+
+export const asMentalBlock = (value: unknown): MentalBlockId | null =>
+  typeof value === 'string' && value in MENTAL_BLOCKS ? value as MentalBlockId : null
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim()
+
+/**
+ * The evidence as it appears in the answer, or null when the model paraphrased
+ * instead of quoting. Matching ignores case, whitespace and surrounding quotes.
+ */
+export function findQuote(message: Message, evidence: string) {
+  const quote = evidence.trim().replace(/^["'“]+|["'”]+$/g, '')
+  if (!quote) return null
+  const start = normalize(message.content).indexOf(normalize(quote))
+  return start >= 0 ? quote : null
+}
+
+// Reflections currently being classified, so a reflection is never sent to the model twice at once
+const inFlight = new Map<string, Promise<ReflectionData>>()
+
+export function needsBlockDetection(reflection: ReflectionData) {
+  return Boolean(reflection.sessionState?.isComplete && !reflection.blockAnalysis)
+}
+
+/**
+ * Classifies the answers of a completed reflection against the taxonomy and
+ * stores the result on it. Incomplete or already classified reflections are
+ * returned untouched.
+ */
+export function ensureBlockDetection(reflection: ReflectionData) {
+  if (!needsBlockDetection(reflection)) return Promise.resolve(reflection)
+
+  const key = `${reflection.userId}_${reflection.id}`
+  const pending = inFlight.get(key) ?? (async () => {
+    try {
+      const blockAnalysis = await getAI().detectBlocks(reflection.messages)
+      const latest = await reflectionRepository.get(reflection.userId, reflection.id)
+      const analyzed = { ...(latest ?? reflection), blockAnalysis, updatedAt: Date.now() }
+      await reflectionRepository.save(analyzed)
+      return analyzed
+    } finally {
+      inFlight.delete(key)
+    }
+  })()
+  inFlight.set(key, pending)
+  return pending
+}
+
+export type BlockTrend = 'improving' | 'worsening' | 'steady' | 'too_early'
+
+export const BLOCK_TRENDS: Record<BlockTrend, string> = {
+  improving: 'Easing',
+  worsening: 'Showing up more',
+  steady: 'Steady',
+  too_early: 'Too early to tell'
+}
+
+export interface BlockOccurrence extends BlockDetection {
+  reflectionId: string
+  date: string
+}
+
+export interface BlockHistory {
+  block: MentalBlockId
+  occurrences: BlockOccurrence[] // newest first
+  sessionCount: number // classified sessions the block showed up in
+  frequency: number // share of classified sessions, 0-1
+  trend: BlockTrend
+}
+
+// Fewer classified sessions than this and a trend would be noise
+const MIN_SESSIONS_FOR_TREND = 4
+// Change in share of sessions between the earlier and recent half that counts as a real shift
+const TREND_THRESHOLD = 0.15
+
+/**
+ * Per-block history across classified sessions. The trend compares how often a
+ * block showed up in the recent half of sessions with the earlier half, with
+ * intensity counting towards it, so a block mentioned as often but more
+ * mildly still reads as improving.
+ */
+export function blockHistory(reflections: ReflectionData[]): BlockHistory[] {
+  const analyzed = reflections
+    .filter(r => r.blockAnalysis)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.updatedAt - b.updatedAt)
+  const half = Math.floor(analyzed.length / 2)
+  const earlier = analyzed.slice(0, half)
+  const recent = analyzed.slice(analyzed.length - half)
+
+  // Average of the strongest intensity per session, 0 where the block did not show
+  const weight = (sessions: ReflectionData[], block: MentalBlockId) =>
+    sessions.reduce((sum, r) => sum + Math.max(0, ...r.blockAnalysis!.detections
+      .filter(d => d.block === block)
+      .map(d => d.intensity)), 0) / (sessions.length * 3)
+
+  return MENTAL_BLOCK_IDS
+    .map(block => {
+      const withBlock = analyzed.filter(r => r.blockAnalysis!.detections.some(d => d.block === block))
+      const occurrences = withBlock
+        .flatMap(r => r.blockAnalysis!.detections
+          .filter(d => d.block === block)
+          .map(d => ({ ...d, reflectionId: r.id, date: r.date })))
+        .reverse()
+
+      let trend: BlockTrend = 'too_early'
+      if (analyzed.length >= MIN_SESSIONS_FOR_TREND) {
+        const change = weight(recent, block) - weight(earlier, block)
+        trend = change <= -TREND_THRESHOLD ? 'improving' : change >= TREND_THRESHOLD ? 'worsening' : 'steady'
+      }
+
+      return {
+        block,
+        occurrences,
+        sessionCount: withBlock.length,
+        frequency: analyzed.length > 0 ? withBlock.length / analyzed.length : 0,
+        trend
+      }
+    })
+    .filter(history => history.sessionCount > 0)
+    .sort((a, b) => b.sessionCount - a.sessionCount)
+}
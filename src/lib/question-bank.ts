@@ -0,0 +1,113 @@
+import type { Message, SessionState } from '../storage'
+import { getSessionTopics } from './topic-coverage'
+import { isClosingStretch } from './session-length'
+
+export type QuestionPhase = 'opening' | 'explore' | 'closing'
+
+export interface BankQuestion {
+  id: string
+  text: string
+  topic: string
+  phase: QuestionPhase
+  stages?: string[] // founder stages the question suits; every stage when omitted
+}
+
+const EARLY = ['idea', 'pre-seed']
+const FUNDED = ['seed', 'series-a', 'series-b']
+
+/**
+ * Curated questions the coach falls back on when the AI is unavailable. Order
+ * matters: within a topic and phase the first unused question is asked, so a
+ * session plays out the same way every time it runs offline.
+ */
+export const QUESTION_BANK: BankQuestion[] = [
+  { id: 'progress-open', topic: 'daily_progress', phase: 'opening', text: "What's one thing you moved forward today, however small?" },
+  { id: 'progress-explore', topic: 'daily_progress', phase: 'explore', text: 'What made that progress possible, and how could you get more of it tomorrow?' },
+  { id: 'progress-explore-2', topic: 'daily_progress', phase: 'explore', text: 'Where did most of your time go today, and was that where it mattered most?' },
+  { id: 'progress-close', topic: 'daily_progress', phase: 'closing', text: 'Looking back at today, what would you want to repeat tomorrow?' },
+
+  { id: 'challenges-open', topic: 'current_challenges', phase: 'opening', text: "What's the hardest thing on your plate right now?" },
+  { id: 'challenges-explore', topic: 'current_challenges', phase: 'explore', text: "What have you already tried on that challenge, and what's one small step you haven't tried yet?" },
+  { id: 'challenges-explore-2', topic: 'current_challenges', phase: 'explore', text: 'Who could help you with this, and what would you ask them?' },
+  { id: 'challenges-close', topic: 'current_challenges', phase: 'closing', text: "What's one specific step you'll take tomorrow to chip away at that challenge?" },
+
+  { id: 'plans-open', topic: 'immediate_plans', phase: 'opening', text: 'What needs to happen this week for it to count as a good week?' },
+  { id: 'plans-explore', topic: 'immediate_plans', phase: 'explore', text: "Of everything on your list, what's the one thing that would make the rest easier?" },
+  { id: 'plans-close', topic: 'immediate_plans', phase: 'closing', text: "What's one specific action you'll take tomorrow to move your startup forward?" },
+
+  { id: 'goals-open', topic: 'goals_status', phase: 'opening', text: 'How are you tracking against the goal that matters most to you right now?' },
+  { id: 'goals-explore', topic: 'goals_status', phase: 'explore', text: "What's the gap between where you are and where you want to be on that goal, in concrete terms?" },
+  { id: 'goals-close', topic: 'goals_status', phase: 'closing', text: 'What would put you measurably closer to your main goal by the end of this week?' },
+
+  { id: 'blocks-explore', topic: 'mental_blocks', phase: 'explore', text: "Is there something you've been putting off? What makes it feel hard to start?" },
+  { id: 'blocks-explore-2', topic: 'mental_blocks', phase: 'explore', text: 'What story are you telling yourself about that, and how sure are you that it is true?' },
+  { id: 'blocks-close', topic: 'mental_blocks', phase: 'closing', text: "What's the smallest version of the thing you've been avoiding that you could do tomorrow?" },
+
+  { id: 'team-explore', topic: 'team_issues', phase: 'explore', text: 'How is the team doing? Is there a conversation you need to have that you have been postponing?', stages: FUNDED },
+  { id: 'team-explore-early', topic: 'team_issues', phase: 'explore', text: 'Who are you building this with, and is that working the way you need it to?', stages: EARLY },
+  { id: 'team-close', topic: 'team_issues', phase: 'closing', text: 'What is one thing you could do tomorrow to make the people you work with more effective?' },
+
+  { id: 'product-open', topic: 'product_development', phase: 'opening', text: "What's happening with the product right now?" },
+  { id: 'product-explore', topic: 'product_development', phase: 'explore', text: "What's the riskiest assumption in what you're building, and how could you test it cheaply?", stages: EARLY },
+  { id: 'product-explore-2', topic: 'product_development', phase: 'explore', text: 'What is slowing down shipping right now, and is it the product, the process or the priorities?' },
+  { id: 'product-close', topic: 'product_development', phase: 'closing', text: "What's the next thing you'll ship, and when will it be in users' hands?" },
+
+  { id: 'customers-open', topic: 'customer_feedback', phase: 'opening', text: 'When did you last talk to a customer, and what did you learn?' },
+  { id: 'customers-explore', topic: 'customer_feedback', phase: 'explore', text: 'What are the people you talk to already doing to solve this problem without you?', stages: EARLY },
+  { id: 'customers-explore-2', topic: 'customer_feedback', phase: 'explore', text: 'What are users asking for most often, and what are they telling you by what they do rather than what they say?' },
+  { id: 'customers-close', topic: 'customer_feedback', phase: 'closing', text: 'Who is one customer you could reach out to tomorrow, and what would you ask them?' },
+
+  { id: 'funding-explore', topic: 'funding', phase: 'explore', text: 'How much runway do you have, and how is that shaping your decisions this week?' },
+  { id: 'funding-explore-early', topic: 'funding', phase: 'explore', text: 'What would you need to show to raise your first round, and how far are you from it?', stages: EARLY },
+  { id: 'funding-explore-funded', topic: 'funding', phase: 'explore', text: 'Which milestones will your next round depend on, and are you on track to hit them?', stages: FUNDED },
+  { id: 'funding-close', topic: 'funding', phase: 'closing', text: 'What is one step you could take this week to strengthen your funding position?' },
+
+  { id: 'wellbeing-open', topic: 'personal_wellbeing', phase: 'opening', text: 'How are you feeling today, honestly?' },
+  { id: 'wellbeing-explore', topic: 'personal_wellbeing', phase: 'explore', text: "How's your energy been lately? What's been giving you energy and what's been draining it?" },
+  { id: 'wellbeing-close', topic: 'personal_wellbeing', phase: 'closing', text: 'What will you do for yourself before the end of the week to keep going at a sustainable pace?' }
+]
+
+// Where the session is: the first answers open up, the last few questions close out
+export function sessionPhase(session: SessionState): QuestionPhase {
+  if (isClosingStretch(session)) return 'closing'
+  if (session.questionCount <= 1) return 'opening'
+  return 'explore'
+}
+
+const suitsStage = (question: BankQuestion, stage?: string) =>
+  !question.stages || !stage || question.stages.includes(stage)
+
+/**
+ * Picks the next question from the bank without any AI. Topics are taken in
+ * order of the session's current focus, then topics the bank has not asked
+ * about yet; the phase and stage filters are relaxed one at a time if nothing fits.
+ * A rejected question (one the founder asked to replace) is never picked again.
+ */
+export function pickFallbackQuestion(session: SessionState, messages: Message[], stage?: string, rejected?: string) {
+  const asked = new Set(messages.filter(m => m.role === 'assistant').map(m => m.content))
+  if (rejected) asked.add(rejected)
+  const unused = QUESTION_BANK.filter(q => !asked.has(q.text))
+  const askedTopics = new Set(QUESTION_BANK.filter(q => asked.has(q.text)).map(q => q.topic))
+
+  const sessionTopics = getSessionTopics(session)
+  const topicOrder = [
+    ...(session.currentFocus ? [session.currentFocus] : []),
+    ...sessionTopics.filter(topic => !askedTopics.has(topic)),
+    ...sessionTopics
+  ]
+  const phase = sessionPhase(session)
+
+  const attempts: ((question: BankQuestion) => boolean)[] = [
+    q => q.phase === phase && suitsStage(q, stage),
+    q => q.phase === phase,
+    q => q.phase !== 'opening' && suitsStage(q, stage)
+  ]
+  for (const matches of attempts) {
+    for (const topic of topicOrder) {
+      const question = unused.find(q => q.topic === topic && matches(q))
+      if (question) return question.text
+    }
+  }
+
+  return (unused[0] ?? QUESTION_BANK[0]).text
+}
@@ -0,0 +1,32 @@
+import { getAI } from '../ai'
+import { reflectionRepository, type ReflectionData } from '../storage'
+
+// Reflections currently being scored, so a reflection is never sent to the model twice at once
+const inFlight = new Map<string, Promise<ReflectionData>>()
+
+export function needsAssessment(reflection: ReflectionData) {
+  return Boolean(reflection.sessionState?.isComplete && !reflection.assessment)
+}
+
+/**
+ * Scores a completed reflection and stores the assessment on it. Reflections
+ * that are incomplete or already assessed are returned untouched.
+ */
+export function ensureAssessment(reflection: ReflectionData) {
+  if (!needsAssessment(reflection)) return Promise.resolve(reflection)
+
+  const key = `${reflection.userId}_${reflection.id}`
+  const pending = inFlight.get(key) ?? (async () => {
+    try {
+      const assessment = await getAI().scoreReflection(reflection)
+      const latest = await reflectionRepository.get(reflection.userId, reflection.id)
+      const assessed = { ...(latest ?? reflection), assessment, updatedAt: Date.now() }
+      await reflectionRepository.save(assessed)
+      return assessed
+    } finally {
+      inFlight.delete(key)
+    }
+  })()
+  inFlight.set(key, pending)
+  return pending
+}
@@ -0,0 +1,50 @@
+import { daysBetween, getSprintRange, getWeekRange, startOfWeek } from './dates'
+import type { FounderProfile, ReportingPeriod, WeeklySummary } from '../storage'
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export interface ReportingSettings {
+  period: ReportingPeriod
+  weekStartsOn: number
+  sprintStartDate: string
+}
+
+// Sprints without a configured start repeat from a fixed week aligned to the week start day
+const DEFAULT_SPRINT_ANCHOR = '2024-01-07'
+
+export function resolveReportingSettings(profile?: FounderProfile | null): ReportingSettings {
+  const configured = profile?.weekStartsOn
+  const weekStartsOn = typeof configured === 'number' && Number.isInteger(configured) && configured >= 0 && configured <= 6
+    ? configured
+    : 0
+  return {
+    period: profile?.reportingPeriod === 'sprint' ? 'sprint' : 'week',
+    weekStartsOn,
+    sprintStartDate: profile?.sprintStartDate || startOfWeek(DEFAULT_SPRINT_ANCHOR, weekStartsOn)
+  }
+}
+
+// The reporting period (week or sprint) that contains dateKey
+export function getPeriodRange(dateKey: string, settings: ReportingSettings) {
+  return settings.period === 'sprint'
+    ? getSprintRange(dateKey, settings.sprintStartDate)
+    : getWeekRange(dateKey, settings.weekStartsOn)
+}
+
+export function periodOfRange(start: string, end: string): ReportingPeriod {
+  return daysBetween(start, end) > 6 ? 'sprint' : 'week'
+}
+
+export function summaryPeriod(summary: WeeklySummary) {
+  return summary.period ?? periodOfRange(summary.weekStartDate, summary.weekEndDate)
+}
+
+// "Week" / "Sprint", for headings such as "Sprint of Mar 3 - Mar 16"
+export function periodNoun(period: ReportingPeriod) {
+  return period === 'sprint' ? 'Sprint' : 'Week'
+}
+
+// "Weekly" / "Sprint", for headings such as "Weekly Overview"
+export function periodTitle(period: ReportingPeriod) {
+  return period === 'sprint' ? 'Sprint' : 'Weekly'
+}
@@ -0,0 +1,115 @@
+import { getAI } from '../ai'
+import { addDays, formatDateKey, getMonthRange, getQuarterRange } from './dates'
+import {
+  profileRepository,
+  reflectionRepository,
+  retrospectiveRepository,
+  summaryRepository,
+  type FounderProfile,
+  type ReflectionData,
+  type Retrospective,
+  type RetrospectiveContent,
+  type RetrospectivePeriod,
+  type SummaryPoint,
+  type WeeklySummary
+} from '../storage'
+
+export function getRetrospectiveRange(period: RetrospectivePeriod, dateKey: string) {
+  return period === 'quarter' ? getQuarterRange(dateKey) : getMonthRange(dateKey)
+}
+
+// The `count` most recent months or quarters up to and including the one containing today
+export function recentRetrospectiveRanges(period: RetrospectivePeriod, today: string, count: number) {
+  const ranges = [getRetrospectiveRange(period, today)]
+  while (ranges.length < count) {
+    ranges.push(getRetrospectiveRange(period, addDays(ranges[ranges.length - 1].start, -1)))
+  }
+  return ranges
+}
+
+export function formatRetrospectivePeriod(period: RetrospectivePeriod, startDate: string) {
+  if (period === 'month') return formatDateKey(startDate, { month: 'long', year: 'numeric' })
+  const [year, month] = startDate.split('-').map(Number)
+  return `Q${Math.floor((month - 1) / 3) + 1} ${year}`
+}
+
+// True when the summary's week runs past either end of the period
+export function isPartialSummary(summary: WeeklySummary, startDate: string, endDate: string) {
+  return summary.weekStartDate < startDate || summary.weekEndDate > endDate
+}
+
+// Keeps only the points of a summary that cite a day inside the period
+function trimToPeriod(summary: WeeklySummary, startDate: string, endDate: string): WeeklySummary {
+  const inPeriod = (points: SummaryPoint[]) =>
+    points.filter(p => p.sourceDates.some(date => date >= startDate && date <= endDate))
+  return {
+    ...summary,
+    progressHighlights: inPeriod(summary.progressHighlights),
+    challengesIdentified: inPeriod(summary.challengesIdentified),
+    mentalBlocksAddressed: inPeriod(summary.mentalBlocksAddressed),
+    recommendations: inPeriod(summary.recommendations)
+  }
+}
+
+/**
+ * Weekly summaries overlapping the period, plus the reflections in it that no
+ * summary covers. Summaries are preferred since they are already condensed;
+ * one that runs past the period keeps only the points dated inside it.
+ */
+async function collectSources(userId: string, startDate: string, endDate: string) {
+  const summaries = (await summaryRepository.list(userId))
+    .filter(s => s.weekStartDate <= endDate && s.weekEndDate >= startDate)
+    .map(s => isPartialSummary(s, startDate, endDate) ? trimToPeriod(s, startDate, endDate) : s)
+    .reverse()
+  const reflections = (await reflectionRepository.listBetween(userId, startDate, endDate))
+    .filter(r => !summaries.some(s => r.date >= s.weekStartDate && r.date <= s.weekEndDate))
+  return { summaries, reflections }
+}
+
+/**
+ * Asks the model for a retrospective built from weekly summaries and any
+ * reflections they do not cover. Bullets cite reflection dates like weekly
+ * summaries do.
+ */
+export function generateRetrospectiveContent(
+  period: RetrospectivePeriod,
+  startDate: string,
+  endDate: string,
+  summaries: WeeklySummary[],
+  reflections: ReflectionData[],
+  profile: FounderProfile | null
+): Promise<RetrospectiveContent> {
+  return getAI().writeRetrospective({ period, startDate, endDate, summaries, reflections, profile })
+}
+
+/**
+ * Generates and stores the retrospective for the month or quarter containing
+ * dateKey, replacing `existing` when regenerating. Returns null when the period
+ * has neither summaries nor reflections.
+ */
+export async function createRetrospective(
+  userId: string,
+  period: RetrospectivePeriod,
+  dateKey: string,
+  existing?: Retrospective | null
+) {
+  const { start, end } = getRetrospectiveRange(period, dateKey)
+  const { summaries, reflections } = await collectSources(userId, start, end)
+  if (summaries.length === 0 && reflections.length === 0) return null
+
+  const profile = await profileRepository.get(userId)
+  const content = await generateRetrospectiveContent(period, start, end, summaries, reflections, profile)
+
+  const retrospective: Retrospective = {
+    id: existing?.id ?? Date.now().toString(),
+    period,
+    startDate: start,
+    endDate: end,
+    ...content,
+    summaryIds: summaries.map(s => s.id),
+    reflectionDates: [...new Set(reflections.map(r => r.date))],
+    createdAt: new Date().toISOString()
+  }
+
+  return retrospectiveRepository.save(userId, retrospective)
+}
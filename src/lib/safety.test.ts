@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAI } from '../ai'
+import { MINUTE, START, message, session, useMockProvider } from './__fixtures__/mock-provider'
+import { activeMinutes, isClockRunning, isSessionPaused } from './session-clock'
+import {
+  acknowledgeSafetyFlag,
+  checkForDistress,
+  flagSession,
+  isSafetyHold,
+  screenForDistress,
+  supportRegionFor
+} from './safety'
+
+describe('supportRegionFor', () => {
+  it("uses the founder's chosen region over their timezone", () => {
+    expect(supportRegionFor('ie', 'America/New_York')).toBe('ie')
+  })
+
+  it.each([
+    ['Europe/London', 'uk'],
+    ['Europe/Dublin', 'ie'],
+    ['Australia/Sydney', 'au'],
+    ['America/Toronto', 'ca'],
+    ['America/Los_Angeles', 'us'],
+    ['Asia/Tokyo', 'international'],
+    [undefined, 'international']
+  ])('guesses from the timezone %s', (timeZone, region) => {
+    expect(supportRegionFor(undefined, timeZone)).toBe(region)
+  })
+})
+
+describe('screenForDistress', () => {
+  it.each([
+    ['Shipped the onboarding flow today.', 'none'],
+    ["Honestly I can't cope with the runway pressure.", 'elevated'],
+    ['Some days I want to die rather than open my inbox.', 'acute']
+  ])('reads %j as %s', (text, level) => {
+    expect(screenForDistress(text)).toBe(level)
+  })
+})
+
+describe('checkForDistress with the mock provider', () => {
+  beforeEach(useMockProvider)
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('classifies answers through the provider', async () => {
+    expect(getAI().name).toBe('mock')
+    expect(await checkForDistress(message('2', 'user', 'Good week, closed two pilots.'))).toBe('none')
+    expect(await checkForDistress(message('2', 'user', 'I feel completely overwhelmed.'))).toBe('elevated')
+    expect(await checkForDistress(message('2', 'user', "I can't go on like this."))).toBe('acute')
+  })
+
+  it('never lets the provider talk down an explicit statement', async () => {
+    vi.spyOn(getAI(), 'checkDistress').mockResolvedValue('none')
+    expect(await checkForDistress(message('2', 'user', "I've been thinking about ending my life."))).toBe('acute')
+  })
+
+  it('takes the provider at its word when it hears more than the phrases do', async () => {
+    vi.spyOn(getAI(), 'checkDistress').mockResolvedValue('acute')
+    expect(await checkForDistress(message('2', 'user', 'Nothing matters any more.'))).toBe('acute')
+  })
+
+  it('falls back to the phrases when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(getAI(), 'checkDistress').mockRejectedValue(new Error('offline'))
+    expect(await checkForDistress(message('2', 'user', 'I am falling apart.'))).toBe('elevated')
+  })
+})
+
+describe('flagging a session', () => {
+  it('pauses the session until the founder decides how to go on', () => {
+    const flagged = flagSession(session(), '2', START + 4 * MINUTE)
+    expect(isSafetyHold(flagged)).toBe(true)
+    expect(isSessionPaused(flagged)).toBe(true)
+    expect(activeMinutes(flagged, START + 30 * MINUTE)).toBe(4)
+    expect(flagged.safetyFlag).toEqual({ messageId: '2', flaggedAt: new Date(START + 4 * MINUTE).toISOString() })
+  })
+
+  it('keeps the answer that first raised the flag', () => {
+    const first = flagSession(session(), '2', START + MINUTE)
+    const again = flagSession(acknowledgeSafetyFlag(first, START + 2 * MINUTE), '4', START + 3 * MINUTE)
+    expect(again.safetyFlag).toMatchObject({ messageId: '2', flaggedAt: new Date(START + MINUTE).toISOString() })
+  })
+
+  it('resumes the clock once acknowledged and keeps the flag for the summaries', () => {
+    const acknowledged = acknowledgeSafetyFlag(flagSession(session(), '2', START + MINUTE), START + 10 * MINUTE)
+    expect(isSafetyHold(acknowledged)).toBe(false)
+    expect(isClockRunning(acknowledged)).toBe(true)
+    expect(acknowledged.safetyFlag?.acknowledgedAt).toBe(new Date(START + 10 * MINUTE).toISOString())
+    expect(activeMinutes(acknowledged, START + 12 * MINUTE)).toBe(3)
+  })
+
+  it('leaves an unflagged session alone when acknowledging', () => {
+    const state = session()
+    expect(acknowledgeSafetyFlag(state, START + MINUTE)).toBe(state)
+  })
+})
@@ -0,0 +1,176 @@
+import { getAI } from '../ai'
+import type { DistressLevel, Message, SessionState, SupportRegion } from '../storage'
+import { pauseSession, resumeSession } from './session-clock'
+
+export interface SupportResource {
+  name: string
+  contact: string // how to reach it, e.g. "Call or text 988"
+  description: string
+  url?: string
+}
+
+export interface SupportRegionInfo {
+  label: string
+  emergency: string // what to do in immediate danger
+  resources: SupportResource[]
+}
+
+// The support lines shown per region; add a region here and to SupportRegion to offer it
+export const SUPPORT_REGIONS: Record<SupportRegion, SupportRegionInfo> = {
+  us: {
+    label: 'United States',
+    emergency: 'If you are in immediate danger, call 911.',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', description: 'Free, confidential support, 24/7', url: 'https://988lifeline.org' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', description: 'Text with a trained crisis counselor, 24/7', url: 'https://www.crisistextline.org' }
+    ]
+  },
+  ca: {
+    label: 'Canada',
+    emergency: 'If you are in immediate danger, call 911.',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', description: 'Free, bilingual support, 24/7', url: 'https://988.ca' }
+    ]
+  },
+  uk: {
+    label: 'United Kingdom',
+    emergency: 'If you are in immediate danger, call 999.',
+    resources: [
+      { name: 'Samaritans', contact: 'Call 116 123', description: 'Someone to talk to, free, 24/7', url: 'https://www.samaritans.org' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', description: 'Free, confidential text support, 24/7', url: 'https://giveusashout.org' }
+    ]
+  },
+  ie: {
+    label: 'Ireland',
+    emergency: 'If you are in immediate danger, call 112 or 999.',
+    resources: [
+      { name: 'Samaritans', contact: 'Call 116 123', description: 'Someone to talk to, free, 24/7', url: 'https://www.samaritans.org' },
+      { name: 'Text 50808', contact: 'Text HELLO to 50808', description: 'Free text support, 24/7', url: 'https://text50808.ie' }
+    ]
+  },
+  au: {
+    label: 'Australia',
+    emergency: 'If you are in immediate danger, call 000.',
+    resources: [
+      { name: 'Lifeline', contact: 'Call 13 11 14', description: 'Crisis support, 24/7', url: 'https://www.lifeline.org.au' },
+      { name: 'Beyond Blue', contact: 'Call 1300 22 4636', description: 'Mental health support, 24/7', url: 'https://www.beyondblue.org.au' }
+    ]
+  },
+  nz: {
+    label: 'New Zealand',
+    emergency: 'If you are in immediate danger, call 111.',
+    resources: [
+      { name: '1737, Need to talk?', contact: 'Call or text 1737', description: 'Talk with a trained counsellor, 24/7', url: 'https://1737.org.nz' },
+      { name: 'Lifeline', contact: 'Call 0800 543 354', description: 'Crisis support, 24/7', url: 'https://www.lifeline.org.nz' }
+    ]
+  },
+  international: {
+    label: 'Elsewhere',
+    emergency: 'If you are in immediate danger, call your local emergency number.',
+    resources: [
+      { name: 'Find A Helpline', contact: 'findahelpline.com', description: 'Free, confidential helplines in your country', url: 'https://findahelpline.com' }
+    ]
+  }
+}
+
+export const SUPPORT_REGION_IDS = Object.keys(SUPPORT_REGIONS) as SupportRegion[]
+
+// Timezone prefixes that pin down a region; everything else gets the international directory
+const TIME_ZONE_REGIONS: [string, SupportRegion][] = [
+  ['Europe/London', 'uk'],
+  ['Europe/Belfast', 'uk'],
+  ['Europe/Dublin', 'ie'],
+  ['Australia/', 'au'],
+  ['Pacific/Auckland', 'nz'],
+  ['Pacific/Chatham', 'nz'],
+  ['America/Toronto', 'ca'],
+  ['America/Vancouver', 'ca'],
+  ['America/Edmonton', 'ca'],
+  ['America/Winnipeg', 'ca'],
+  ['America/Halifax', 'ca'],
+  ['America/St_Johns', 'ca'],
+  ['America/Regina', 'ca'],
+  ['America/New_York', 'us'],
+  ['America/Chicago', 'us'],
+  ['America/Denver', 'us'],
+  ['America/Phoenix', 'us'],
+  ['America/Los_Angeles', 'us'],
+  ['America/Anchorage', 'us'],
+  ['Pacific/Honolulu', 'us'],
+  ['US/', 'us']
+]
+
+// The founder's chosen region, or a guess from their timezone until they pick one
+export function supportRegionFor(region?: SupportRegion, timeZone?: string): SupportRegion {
+  if (region && region in SUPPORT_REGIONS) return region
+  return TIME_ZONE_REGIONS.find(([prefix]) => timeZone?.startsWith(prefix))?.[1] ?? 'international'
+}
+
+// Phrases that always count, whatever the classifier says; matched on lowercased text
+const ACUTE_PHRASES = [
+  'kill myself', 'killing myself', 'end my life', 'ending my life', 'suicide', 'suicidal',
+  'want to die', 'better off dead', 'hurt myself', 'hurting myself', 'self harm', 'self-harm',
+  'no reason to live', "don't want to be here anymore", "can't go on"
+]
+
+const ELEVATED_PHRASES = [
+  "can't cope", 'cannot cope', 'falling apart', 'breaking down', 'hopeless', 'panic attack',
+  "can't stop crying", 'completely overwhelmed', 'at breaking point'
+]
+
+const LEVELS: DistressLevel[] = ['none', 'elevated', 'acute']
+
+const higher = (a: DistressLevel, b: DistressLevel) => LEVELS.indexOf(a) >= LEVELS.indexOf(b) ? a : b
+
+// Screens text against fixed phrases; also what the mock provider classifies with
+export function screenForDistress(text: string): DistressLevel {
+  const lower = text.toLowerCase()
+  if (ACUTE_PHRASES.some(p => lower.includes(p))) return 'acute'
+  if (ELEVATED_PHRASES.some(p => lower.includes(p))) return 'elevated'
+  return 'none'
+}
+
+/**
+ * Checks one answer for distress. The fixed phrases are checked as well as
+ * the classifier and the higher level wins, so an explicit statement is never
+ * missed because the model was unavailable or read it differently.
+ */
+export async function checkForDistress(answer: Message): Promise<DistressLevel> {
+  const screened = screenForDistress(answer.content)
+  try {
+    return higher(await getAI().checkDistress(answer), screened)
+  } catch (error) {
+    console.error('Error checking for distress:', error)
+    return screened
+  }
+}
+
+// Shown in place of the next question; written by hand, never by the model
+export const SUPPORT_MESSAGE = "It sounds like you're carrying something really heavy right now, and I'm glad you told me. Let's set the coaching questions aside. You don't have to go through this alone: the people below are there to listen, any time of day."
+
+export const SUPPORT_CLOSING_MESSAGE = "Thank you for being honest about how you're doing. Your conversation is saved. Please reach out to one of the people above, or someone you trust, today. You deserve support."
+
+// True while a flagged session waits for the founder to decide how to go on
+export function isSafetyHold(session: SessionState) {
+  return Boolean(session.safetyFlag && !session.safetyFlag.acknowledgedAt)
+}
+
+// Flags the session and stops its clock; a session keeps the answer that first raised the flag
+export function flagSession(session: SessionState, messageId: string, at: number): SessionState {
+  return {
+    ...pauseSession(session, at),
+    safetyFlag: {
+      messageId: session.safetyFlag?.messageId ?? messageId,
+      flaggedAt: session.safetyFlag?.flaggedAt ?? new Date(at).toISOString()
+    }
+  }
+}
+
+// The founder chose to keep reflecting: the clock runs again and the flag stays for the summaries
+export function acknowledgeSafetyFlag(session: SessionState, at: number): SessionState {
+  if (!session.safetyFlag) return session
+  return {
+    ...resumeSession(session, at),
+    safetyFlag: { ...session.safetyFlag, acknowledgedAt: new Date(at).toISOString() }
+  }
+}
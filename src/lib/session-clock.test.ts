@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { MINUTE, START, message, session } from './__fixtures__/mock-provider'
+import {
+  abandonSession,
+  activeMinutes,
+  isClockRunning,
+  isSessionAbandoned,
+  isSessionPaused,
+  pauseSession,
+  resumeSession,
+  sessionDurationMinutes,
+  stopClock
+} from './session-clock'
+
+describe('activeMinutes', () => {
+  it('counts the running stretch on top of the banked time', () => {
+    expect(activeMinutes(session({ activeMs: 3 * MINUTE, resumedAt: START }), START + 4 * MINUTE)).toBe(7)
+  })
+
+  it('times sessions from before pausing by the wall clock', () => {
+    const legacy = session({ status: undefined, activeMs: undefined, resumedAt: undefined })
+    expect(isClockRunning(legacy)).toBe(true)
+    expect(activeMinutes(legacy, START + 12 * MINUTE)).toBe(12)
+  })
+})
+
+describe('pausing and resuming', () => {
+  it('leaves the paused stretch out of the active time', () => {
+    const paused = pauseSession(session(), START + 6 * MINUTE)
+    expect(isSessionPaused(paused)).toBe(true)
+    expect(isClockRunning(paused)).toBe(false)
+    expect(activeMinutes(paused, START + 60 * MINUTE)).toBe(6)
+
+    const resumed = resumeSession(paused, START + 60 * MINUTE)
+    expect(resumed.status).toBe('active')
+    expect(activeMinutes(resumed, START + 64 * MINUTE)).toBe(10)
+  })
+
+  it('does not count the quiet minutes before an idle pause', () => {
+    const lastActivity = START + 2 * MINUTE
+    const idle = pauseSession(session(), lastActivity, 'idle')
+    expect(isSessionPaused(idle)).toBe(true)
+    expect(activeMinutes(idle, START + 7 * MINUTE)).toBe(2)
+  })
+
+  it('keeps the running stretch when resuming a session that was never paused', () => {
+    const running = session({ activeMs: MINUTE, resumedAt: START })
+    expect(resumeSession(running, START + 5 * MINUTE)).toEqual({ ...running, status: 'active' })
+  })
+
+  it('starts timing a legacy session from its start when it is resumed', () => {
+    const legacy = session({ status: undefined, activeMs: undefined, resumedAt: undefined })
+    const resumed = resumeSession(legacy, START + 3 * MINUTE)
+    expect(resumed).toMatchObject({ activeMs: 3 * MINUTE, resumedAt: START + 3 * MINUTE })
+  })
+})
+
+describe('ending the clock', () => {
+  it('marks an abandoned session and stops its clock', () => {
+    const abandoned = abandonSession(session(), START + 4 * MINUTE)
+    expect(isSessionAbandoned(abandoned)).toBe(true)
+    expect(isClockRunning(abandoned)).toBe(false)
+  })
+
+  it('freezes a completed session without changing its status', () => {
+    const stopped = stopClock(session(), START + 9 * MINUTE)
+    expect(stopped.status).toBe('active')
+    expect(activeMinutes(stopped, START + 90 * MINUTE)).toBe(9)
+  })
+})
+
+describe('sessionDurationMinutes', () => {
+  const messages = [
+    message('1', 'assistant', 'How did today go?', START),
+    message('2', 'user', 'Fine.', START + 14 * MINUTE)
+  ]
+
+  it('uses the active time of a timed session', () => {
+    const stopped = stopClock(session(), START + 8 * MINUTE)
+    expect(sessionDurationMinutes({
+      id: 's1', date: '2026-10-19', userId: 'user-1', messages, sessionState: stopped, updatedAt: START + 30 * MINUTE
+    })).toBe(8)
+  })
+
+  it('falls back to the span of the messages, or nothing without any', () => {
+    const reflection = { id: 's1', date: '2026-10-19', userId: 'user-1', messages, updatedAt: START }
+    expect(sessionDurationMinutes(reflection)).toBe(14)
+    expect(sessionDurationMinutes({ ...reflection, messages: [] })).toBeNull()
+  })
+})
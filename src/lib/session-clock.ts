@@ -0,0 +1,73 @@
+import type { ReflectionData, SessionState, SessionStatus } from '../storage'
+
+// Minutes without typing or sending before a running session is paused as idle
+export const IDLE_MINUTES = 5
+
+const MINUTE = 1000 * 60
+
+// A fresh clock, running from the start of the session
+export function startClock(now: number): Pick<SessionState, 'status' | 'activeMs' | 'resumedAt'> {
+  return { status: 'active', activeMs: 0, resumedAt: now }
+}
+
+// Sessions from before pausing are timed by the wall clock from their start
+const isLegacyClock = (session: SessionState) => session.activeMs === undefined
+
+export function isClockRunning(session: SessionState) {
+  return isLegacyClock(session) || session.resumedAt !== undefined
+}
+
+export function isSessionPaused(session: SessionState) {
+  return session.status === 'paused' || session.status === 'idle'
+}
+
+export function isSessionAbandoned(session: SessionState) {
+  return session.status === 'abandoned'
+}
+
+// Time spent in the session, leaving out stretches it was paused or idle
+export function activeMinutes(session: SessionState, now = Date.now()) {
+  if (isLegacyClock(session)) return (now - session.startTime) / MINUTE
+  const running = session.resumedAt !== undefined ? Math.max(0, now - session.resumedAt) : 0
+  return ((session.activeMs ?? 0) + running) / MINUTE
+}
+
+/**
+ * Banks the running stretch up to `at` and stops the clock. Idle pauses pass
+ * the founder's last activity as `at`, so the quiet minutes are not counted.
+ */
+export function pauseSession(session: SessionState, at: number, status: SessionStatus = 'paused'): SessionState {
+  return {
+    ...session,
+    status,
+    activeMs: Math.round(activeMinutes(session, at) * MINUTE),
+    resumedAt: undefined
+  }
+}
+
+export function resumeSession(session: SessionState, now: number): SessionState {
+  if (!isLegacyClock(session) && session.resumedAt !== undefined) return { ...session, status: 'active' }
+  return { ...session, status: 'active', activeMs: Math.round(activeMinutes(session, now) * MINUTE), resumedAt: now }
+}
+
+export function abandonSession(session: SessionState, now: number): SessionState {
+  return pauseSession(session, now, 'abandoned')
+}
+
+// Freezes the clock when the session completes, keeping its status as it was
+export function stopClock(session: SessionState, now: number): SessionState {
+  return pauseSession(session, now, session.status ?? 'active')
+}
+
+/**
+ * Minutes the founder actually spent in a saved session. Sessions from before
+ * active time was recorded fall back to the span of their messages.
+ */
+export function sessionDurationMinutes(reflection: ReflectionData) {
+  const session = reflection.sessionState
+  if (session && !isLegacyClock(session)) return Math.round(activeMinutes(session, reflection.updatedAt))
+  if (!reflection.messages.length) return null
+  const first = reflection.messages[0]
+  const last = reflection.messages[reflection.messages.length - 1]
+  return Math.round((last.timestamp - first.timestamp) / MINUTE)
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAI } from '../ai'
+import { MINUTE, START, session, useMockProvider } from './__fixtures__/mock-provider'
+import { QUESTION_BANK } from './question-bank'
+import { pauseSession } from './session-clock'
+import { budgetFor, isBudgetSpent, isClosingStretch, sessionBudget, wrapUpWindow } from './session-length'
+import { BUILT_IN_TEMPLATES } from './session-templates'
+import { EMPTY_ANALYSIS } from './topic-coverage'
+
+const [daily, morning] = BUILT_IN_TEMPLATES
+
+describe('budgetFor', () => {
+  it('runs a standard session as the template was designed', () => {
+    expect(budgetFor(daily, 'standard')).toEqual({ maxQuestions: 5, maxMinutes: 20 })
+  })
+
+  it('caps a quick session and extends a deep dive', () => {
+    expect(budgetFor(daily, 'quick')).toEqual({ maxQuestions: 3, maxMinutes: 5 })
+    expect(budgetFor(daily, 'deep_dive')).toEqual({ maxQuestions: 10, maxMinutes: 40 })
+    expect(budgetFor(morning, 'quick')).toEqual({ maxQuestions: 3, maxMinutes: 5 })
+  })
+
+  it('never shrinks a template that is already longer than a deep dive', () => {
+    expect(budgetFor({ ...daily, maxQuestions: 12, maxMinutes: 60 }, 'deep_dive')).toEqual({ maxQuestions: 12, maxMinutes: 60 })
+  })
+})
+
+describe('sessionBudget', () => {
+  it("falls back to the template's time limit for sessions without one", () => {
+    expect(sessionBudget(session({ maxMinutes: undefined }))).toEqual({ maxQuestions: 5, maxMinutes: 20 })
+  })
+})
+
+describe('closing stretch', () => {
+  it.each([
+    [3, 1],
+    [5, 2],
+    [10, 3]
+  ])('turns the last questions of %i towards next steps', (maxQuestions, window) => {
+    expect(wrapUpWindow(session({ maxQuestions }))).toBe(window)
+    expect(isClosingStretch(session({ maxQuestions, questionCount: maxQuestions - window - 1 }))).toBe(false)
+    expect(isClosingStretch(session({ maxQuestions, questionCount: maxQuestions - window }))).toBe(true)
+  })
+})
+
+describe('isBudgetSpent', () => {
+  it('ends once the questions are used up', () => {
+    expect(isBudgetSpent(session({ questionCount: 4 }), START)).toBe(false)
+    expect(isBudgetSpent(session({ questionCount: 5 }), START)).toBe(true)
+  })
+
+  it('ends once the active minutes are used up, not counting pauses', () => {
+    expect(isBudgetSpent(session(), START + 20 * MINUTE)).toBe(true)
+    const paused = pauseSession(session(), START + 10 * MINUTE)
+    expect(isBudgetSpent(paused, START + 60 * MINUTE)).toBe(false)
+  })
+})
+
+describe('with the mock provider', () => {
+  beforeEach(useMockProvider)
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const ask = async (state: ReturnType<typeof session>) =>
+    (await getAI().generateQuestion({ messages: [], session: state, analysis: EMPTY_ANALYSIS }, () => {})).text
+
+  const phaseOf = (text: string) => QUESTION_BANK.find(q => q.text === text)?.phase
+
+  it('keeps exploring until the closing stretch of the budget', async () => {
+    expect(phaseOf(await ask(session({ questionCount: 2 })))).toBe('explore')
+    expect(phaseOf(await ask(session({ questionCount: 3 })))).toBe('closing')
+  })
+
+  it('closes a quick session sooner than a standard one', async () => {
+    const quick = budgetFor(daily, 'quick')
+    expect(phaseOf(await ask(session({ ...quick, length: 'quick', questionCount: 2 })))).toBe('closing')
+  })
+})
@@ -0,0 +1,77 @@
+import { profileRepository, type SessionLength, type SessionState, type SessionTemplate } from '../storage'
+import { sessionTemplate } from './session-templates'
+import { activeMinutes } from './session-clock'
+
+export interface SessionBudget {
+  maxQuestions: number
+  maxMinutes: number
+}
+
+export const DEFAULT_SESSION_LENGTH: SessionLength = 'standard'
+
+// Quick and deep-dive cap or extend the template; standard runs it as designed
+export const SESSION_LENGTHS: Record<SessionLength, { label: string, description: string }> = {
+  quick: { label: 'Quick', description: 'A short check-in when time is tight' },
+  standard: { label: 'Standard', description: "The session type's usual pace" },
+  deep_dive: { label: 'Deep Dive', description: 'Room to follow threads further' }
+}
+
+const QUICK_BUDGET: SessionBudget = { maxQuestions: 3, maxMinutes: 5 }
+const DEEP_DIVE_BUDGET: SessionBudget = { maxQuestions: 10, maxMinutes: 40 }
+
+// The question and time budget for a template run at the given length
+export function budgetFor(template: SessionTemplate, length: SessionLength): SessionBudget {
+  switch (length) {
+    case 'quick':
+      return {
+        maxQuestions: Math.min(template.maxQuestions, QUICK_BUDGET.maxQuestions),
+        maxMinutes: Math.min(template.maxMinutes, QUICK_BUDGET.maxMinutes)
+      }
+    case 'deep_dive':
+      return {
+        maxQuestions: Math.max(template.maxQuestions, DEEP_DIVE_BUDGET.maxQuestions),
+        maxMinutes: Math.max(template.maxMinutes, DEEP_DIVE_BUDGET.maxMinutes)
+      }
+    default:
+      return { maxQuestions: template.maxQuestions, maxMinutes: template.maxMinutes }
+  }
+}
+
+export const describeBudget = ({ maxQuestions, maxMinutes }: SessionBudget) =>
+  `${maxQuestions} questions · ${maxMinutes} min`
+
+// The budget a session was started with; older sessions fall back to their template's time limit
+export function sessionBudget(session: SessionState): SessionBudget {
+  return {
+    maxQuestions: session.maxQuestions,
+    maxMinutes: session.maxMinutes ?? sessionTemplate(session).maxMinutes
+  }
+}
+
+export function sessionLength(session: SessionState): SessionLength {
+  return session.length ?? DEFAULT_SESSION_LENGTH
+}
+
+/**
+ * How many of the last questions steer towards next steps: one in a quick
+ * session, two at the standard five, three in a deep dive.
+ */
+export function wrapUpWindow(session: SessionState) {
+  return Math.max(1, Math.round(session.maxQuestions * 0.3))
+}
+
+export function isClosingStretch(session: SessionState) {
+  return session.maxQuestions - session.questionCount <= wrapUpWindow(session)
+}
+
+// True once the session has used its question budget or its active time
+export function isBudgetSpent(session: SessionState, now = Date.now()) {
+  const { maxQuestions, maxMinutes } = sessionBudget(session)
+  return session.questionCount >= maxQuestions || activeMinutes(session, now) >= maxMinutes
+}
+
+export async function saveSessionLength(userId: string, length: SessionLength) {
+  const profile = await profileRepository.get(userId)
+  if (!profile) return
+  await profileRepository.save(userId, { ...profile, sessionLength: length })
+}
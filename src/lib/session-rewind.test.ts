@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAI } from '../ai'
+import { message, session, useMockProvider } from './__fixtures__/mock-provider'
+import { startIntervention } from './interventions'
+import { lastUserMessageIndex, rewindSession, withCheckpoint } from './session-rewind'
+
+const messages = [
+  message('1', 'assistant', 'What did you move forward today?'),
+  message('2', 'user', 'I shipped the pricing page.'),
+  message('3', 'assistant', 'What made that possible?'),
+  message('4', 'user', "Honestly I'm afraid it will fail, what if it flops.")
+]
+
+describe('withCheckpoint', () => {
+  it('replaces checkpoints from the same point or later', () => {
+    const first = withCheckpoint(session({ questionCount: 1 }), 3)
+    const redone = withCheckpoint({ ...first, questionCount: 2 }, 3)
+    expect(redone.checkpoints).toHaveLength(1)
+    expect(redone.checkpoints?.[0]).toMatchObject({ messageCount: 3, questionCount: 2 })
+  })
+})
+
+describe('rewindSession', () => {
+  it('goes back to the last checkpoint at or before the kept messages', () => {
+    const early = withCheckpoint(session({ questionCount: 1, topics: ['daily_progress'] }), 3)
+    const late = withCheckpoint({ ...early, questionCount: 2, topics: ['daily_progress', 'mental_blocks'], isComplete: true }, 5)
+
+    const rewound = rewindSession(late, messages, 3)
+    expect(rewound).toMatchObject({ questionCount: 1, topics: ['daily_progress'], isComplete: false })
+    expect(rewound.checkpoints).toHaveLength(1)
+  })
+
+  it('only rolls back the question count of a session saved before checkpoints', () => {
+    const legacy = session({ questionCount: 2, topics: ['funding'], isComplete: true })
+    expect(rewindSession(legacy, messages, 3)).toMatchObject({ questionCount: 1, topics: ['funding'], isComplete: false })
+  })
+
+  it('treats checkpoints from before exercises as having none running', () => {
+    const { interventions: _, ...checkpoint } = withCheckpoint(session(), 1).checkpoints![0]
+    expect(rewindSession(session({ checkpoints: [checkpoint] }), messages, 2).interventions).toEqual([])
+  })
+})
+
+describe('with the mock provider', () => {
+  beforeEach(useMockProvider)
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('drops an exercise started by an answer that is edited away', async () => {
+    const before = withCheckpoint(session({ questionCount: 1 }), 3)
+    const { detections } = await getAI().detectBlocks([messages[3]])
+    const during = withCheckpoint({ ...startIntervention(before, detections[0]), questionCount: 2 }, 5)
+    expect(during.interventions).toHaveLength(1)
+
+    const index = lastUserMessageIndex(messages)
+    expect(index).toBe(3)
+    expect(rewindSession(during, messages, index).interventions).toEqual([])
+  })
+})
+
+describe('lastUserMessageIndex', () => {
+  it('is -1 before the founder has answered', () => {
+    expect(lastUserMessageIndex(messages.slice(0, 1))).toBe(-1)
+  })
+})
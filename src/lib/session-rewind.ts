@@ -0,0 +1,49 @@
+import type { Message, SessionState } from '../storage'
+
+// Records where the session stands once the conversation has reached messageCount messages
+export function withCheckpoint(session: SessionState, messageCount: number): SessionState {
+  const checkpoints = (session.checkpoints ?? []).filter(c => c.messageCount < messageCount)
+  return {
+    ...session,
+    checkpoints: [
+      ...checkpoints,
+      {
+        messageCount,
+        questionCount: session.questionCount,
+        topics: session.topics,
+        topicCoverage: session.topicCoverage,
+        currentFocus: session.currentFocus,
+        interventions: session.interventions
+      }
+    ]
+  }
+}
+
+/**
+ * Winds the session back to how it stood when the conversation held its first
+ * messageCount messages. Sessions saved before checkpoints existed only get
+ * their question count rolled back; their topic coverage is kept as is.
+ */
+export function rewindSession(session: SessionState, messages: Message[], messageCount: number): SessionState {
+  const checkpoints = (session.checkpoints ?? []).filter(c => c.messageCount <= messageCount)
+  const checkpoint = checkpoints[checkpoints.length - 1]
+  if (!checkpoint) {
+    return {
+      ...session,
+      questionCount: messages.slice(0, messageCount).filter(m => m.role === 'user').length,
+      isComplete: false
+    }
+  }
+
+  // Checkpoints from before exercises existed had none running
+  const { messageCount: _, interventions = [], ...progress } = checkpoint
+  return { ...session, ...progress, interventions, checkpoints, isComplete: false }
+}
+
+// Index of the founder's latest answer, or -1 if there is none
+export function lastUserMessageIndex(messages: Message[]) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return i
+  }
+  return -1
+}
@@ -0,0 +1,97 @@
+import { profileRepository, type FounderProfile, type SessionTemplate, type WrapUpFormat } from '../storage'
+import { CORE_TOPICS } from './topic-coverage'
+
+export const DEFAULT_TEMPLATE_ID = 'daily_reflection'
+
+export const WRAP_UP_FORMATS: Record<WrapUpFormat, string> = {
+  daily_recap: 'Recap and commitments for tomorrow',
+  day_plan: 'Priorities for today',
+  weekly_retro: 'Wins, misses and focus for next week',
+  fundraising_prep: 'Fundraising next steps'
+}
+
+export const BUILT_IN_TEMPLATES: SessionTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Daily Reflection',
+    description: 'A balanced look at progress, challenges and plans.',
+    openingQuestion: "Welcome to your daily reflection! I'm here to help you think through your startup journey. Let's start with something positive: What's one thing you accomplished yesterday that moved your startup forward, no matter how small?",
+    topics: Object.keys(CORE_TOPICS),
+    maxQuestions: 5,
+    maxMinutes: 20,
+    wrapUpFormat: 'daily_recap',
+    isBuiltIn: true
+  },
+  {
+    id: 'morning_intentions',
+    name: 'Morning Intentions',
+    description: 'Set priorities and spot blockers before the day starts.',
+    openingQuestion: "Good morning! Let's set you up for a focused day. What's the single most important thing you want to have moved forward by tonight?",
+    topics: ['immediate_plans', 'goals_status', 'mental_blocks', 'personal_wellbeing'],
+    maxQuestions: 3,
+    maxMinutes: 10,
+    wrapUpFormat: 'day_plan',
+    isBuiltIn: true
+  },
+  {
+    id: 'evening_review',
+    name: 'Evening Review',
+    description: 'Close the day: what happened, what got in the way, what is next.',
+    openingQuestion: "Let's close out the day. What actually got done today compared with what you planned this morning?",
+    topics: ['daily_progress', 'current_challenges', 'mental_blocks', 'immediate_plans', 'personal_wellbeing'],
+    maxQuestions: 4,
+    maxMinutes: 15,
+    wrapUpFormat: 'daily_recap',
+    isBuiltIn: true
+  },
+  {
+    id: 'weekly_retro',
+    name: 'Weekly Retro',
+    description: 'Step back and look at the week as a whole.',
+    openingQuestion: "Time to look back on the week. What are you proudest of from the last seven days, and what didn't go the way you hoped?",
+    topics: ['daily_progress', 'goals_status', 'current_challenges', 'team_issues', 'product_development', 'customer_feedback', 'mental_blocks'],
+    maxQuestions: 7,
+    maxMinutes: 30,
+    wrapUpFormat: 'weekly_retro',
+    isBuiltIn: true
+  },
+  {
+    id: 'fundraising_prep',
+    name: 'Fundraising Prep',
+    description: 'Sharpen your story, metrics and pipeline before investor conversations.',
+    openingQuestion: "Let's get you ready for investor conversations. Where does your raise stand right now, and which upcoming meeting matters most?",
+    topics: ['funding', 'goals_status', 'customer_feedback', 'product_development', 'mental_blocks'],
+    maxQuestions: 6,
+    maxMinutes: 25,
+    wrapUpFormat: 'fundraising_prep',
+    isBuiltIn: true
+  }
+]
+
+// Built-in templates first, then the founder's own
+export function listTemplates(profile?: FounderProfile | null) {
+  return [...BUILT_IN_TEMPLATES, ...(profile?.sessionTemplates ?? [])]
+}
+
+// Sessions saved before templates existed ran the default daily flow
+export function sessionTemplate(session: { template?: SessionTemplate }) {
+  return session.template ?? BUILT_IN_TEMPLATES[0]
+}
+
+export async function saveCustomTemplate(userId: string, template: SessionTemplate) {
+  const profile = await profileRepository.get(userId)
+  if (!profile) throw new Error('Complete your profile before creating templates')
+  await profileRepository.save(userId, {
+    ...profile,
+    sessionTemplates: [...(profile.sessionTemplates ?? []).filter(t => t.id !== template.id), template]
+  })
+}
+
+export async function deleteCustomTemplate(userId: string, templateId: string) {
+  const profile = await profileRepository.get(userId)
+  if (!profile) return
+  await profileRepository.save(userId, {
+    ...profile,
+    sessionTemplates: (profile.sessionTemplates ?? []).filter(t => t.id !== templateId)
+  })
+}
@@ -0,0 +1,59 @@
+import { getAI } from '../ai'
+import type { Message, SessionWrapUp, WrapUpFormat } from '../storage'
+
+// What each wrap-up format asks the model for, and how its commitments are headed in chat
+export const FORMAT_GUIDANCE: Record<WrapUpFormat, { session: string; recap: string; commitments: string; heading: string }> = {
+  daily_recap: {
+    session: 'daily reflection',
+    recap: 'recapping what they worked through today',
+    commitments: 'concrete actions they will take tomorrow',
+    heading: 'Commitments for tomorrow'
+  },
+  day_plan: {
+    session: 'morning planning',
+    recap: 'summarizing what today needs to achieve and what might get in the way',
+    commitments: 'the priorities they will work on today, most important first',
+    heading: 'Priorities for today'
+  },
+  weekly_retro: {
+    session: 'weekly retro',
+    recap: 'covering the week\'s main wins and misses',
+    commitments: 'what they will focus on or change next week',
+    heading: 'Focus for next week'
+  },
+  fundraising_prep: {
+    session: 'fundraising preparation',
+    recap: 'summarizing where the raise stands and how ready their story is',
+    commitments: 'the next fundraising steps they will take (investor follow-ups, materials, metrics)',
+    heading: 'Next fundraising steps'
+  }
+}
+
+/**
+ * Writes the end-of-session recap from the conversation: what was covered,
+ * the single most useful insight and the founder's commitments, framed by the
+ * session's wrap-up format. Flagged sessions get a gentler recap.
+ */
+export function generateWrapUp(messages: Message[], format: WrapUpFormat = 'daily_recap', flagged = false): Promise<SessionWrapUp> {
+  return getAI().writeWrapUp(messages, format, flagged)
+}
+
+// The closing chat message shown for a wrap-up
+export function commitmentsHeading(format: WrapUpFormat = 'daily_recap') {
+  return FORMAT_GUIDANCE[format].heading
+}
+
+export function formatWrapUpMessage(wrapUp: SessionWrapUp) {
+  const lines = [`Thank you for reflecting today. ${wrapUp.recap}`]
+  if (wrapUp.topInsight) {
+    lines.push('', `Top insight: ${wrapUp.topInsight}`)
+  }
+  if (wrapUp.commitments.length > 0) {
+    lines.push('', `${commitmentsHeading(wrapUp.format)}:`, ...wrapUp.commitments.map(c => `- ${c}`))
+  }
+  lines.push('', 'Your session is complete. See you next time!')
+  return lines.join('\n')
+}
+
+// Used when the wrap-up could not be generated; it makes no claims about the conversation
+export const FALLBACK_CLOSING_MESSAGE = "Thank you for reflecting today. I couldn't put together a recap just now, but your conversation has been saved. See you tomorrow!"
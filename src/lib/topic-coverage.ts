@@ -0,0 +1,118 @@
+import { getAI } from '../ai'
+import type { Message, SessionState, TopicCoverage } from '../storage'
+
+// Core topics tracked across every session, in display order
+export const CORE_TOPICS: Record<string, string> = {
+  daily_progress: 'Progress',
+  current_challenges: 'Challenges',
+  immediate_plans: 'Plans',
+  goals_status: 'Goals',
+  mental_blocks: 'Mental blocks',
+  team_issues: 'Team',
+  product_development: 'Product',
+  customer_feedback: 'Customers',
+  funding: 'Funding',
+  personal_wellbeing: 'Wellbeing'
+}
+
+export const TOPIC_IDS = Object.keys(CORE_TOPICS)
+
+export interface ConversationAnalysis {
+  topics: string[]
+  currentTopic: string | null
+  currentTopicSpecificity: number
+  shouldMoveToNewTopic: boolean
+  suggestedNextTopic: string | null
+}
+
+export const EMPTY_ANALYSIS: ConversationAnalysis = {
+  topics: [],
+  currentTopic: null,
+  currentTopicSpecificity: 0,
+  shouldMoveToNewTopic: false,
+  suggestedNextTopic: null
+}
+
+export const asTopic = (value: unknown) => (typeof value === 'string' && TOPIC_IDS.includes(value) ? value : null)
+
+// Topics already explored in depth, which the coach should not return to
+export function getOverCoveredTopics(session: SessionState) {
+  return Object.entries(session.topicCoverage)
+    .filter(([, coverage]) => coverage.explored)
+    .map(([topic]) => topic)
+}
+
+// The topics a session steers between: its template's set, or every core topic
+export function getSessionTopics(session: SessionState) {
+  return session.template?.topics.length ? session.template.topics : TOPIC_IDS
+}
+
+export function getUntouchedTopics(session: SessionState) {
+  return getSessionTopics(session).filter(topic => !session.topicCoverage[topic]?.mentioned)
+}
+
+export const describeCoverage = (session: SessionState) => {
+  const lines = Object.entries(session.topicCoverage).map(([topic, coverage]) =>
+    `- ${topic}: specificity ${coverage.specificity}/3${coverage.explored ? ' (explored)' : ''}, last asked at question ${coverage.lastQuestionIndex}`
+  )
+  return lines.length > 0 ? lines.join('\n') : '- nothing yet'
+}
+
+/**
+ * Classifies the latest exchange against the core topics. The recent messages
+ * decide what is being discussed now; the session's stored coverage lets the
+ * model steer away from topics that were already covered earlier on.
+ */
+export async function analyzeConversationContext(messages: Message[], session: SessionState): Promise<ConversationAnalysis> {
+  if (messages.length < 2) return EMPTY_ANALYSIS
+
+  try {
+    return await getAI().analyzeContext(messages, session)
+  } catch (error) {
+    console.error('Error analyzing conversation:', error)
+    return { ...EMPTY_ANALYSIS, currentTopicSpecificity: 1 }
+  }
+}
+
+/**
+ * Folds one turn's analysis into the session: every touched topic is marked
+ * mentioned, the current topic keeps its highest specificity and becomes
+ * explored once it reaches specificity 2, and the focus moves on when the analysis says so.
+ */
+export function mergeAnalysis(session: SessionState, analysis: ConversationAnalysis, questionIndex: number): SessionState {
+  const topicCoverage = { ...session.topicCoverage }
+  const touched = new Set(analysis.topics)
+  if (analysis.currentTopic) touched.add(analysis.currentTopic)
+
+  for (const topic of touched) {
+    const previous: TopicCoverage = topicCoverage[topic] ?? {
+      mentioned: false,
+      explored: false,
+      specificity: 0,
+      lastQuestionIndex: -1
+    }
+    const isCurrent = topic === analysis.currentTopic
+    const specificity = isCurrent ? Math.max(previous.specificity, analysis.currentTopicSpecificity) : previous.specificity
+    topicCoverage[topic] = {
+      mentioned: true,
+      explored: previous.explored || specificity >= 2,
+      specificity,
+      lastQuestionIndex: isCurrent ? questionIndex : previous.lastQuestionIndex
+    }
+  }
+
+  const candidate = analysis.shouldMoveToNewTopic || (analysis.currentTopic && topicCoverage[analysis.currentTopic]?.explored)
+    ? analysis.suggestedNextTopic
+    : analysis.currentTopic
+  // Never steer back into a topic that is already explored while others are untouched
+  const nextFocus = candidate && topicCoverage[candidate]?.explored
+    ? getSessionTopics(session).find(topic => !topicCoverage[topic]?.mentioned) ?? candidate
+    : candidate
+
+  return {
+    ...session,
+    topics: [...new Set([...session.topics, ...touched])],
+    topicCoverage,
+    currentFocus: nextFocus ?? session.currentFocus
+  }
+}
@@ -0,0 +1,94 @@
+import { getAI } from '../ai'
+import { getPeriodRange, periodOfRange, type ReportingSettings } from './reporting-period'
+import {
+  reflectionRepository,
+  summaryRepository,
+  type ReflectionData,
+  type SummaryPoint,
+  type WeeklySummary,
+  type WeeklySummaryContent
+} from '../storage'
+
+// Keeps well-formed bullets and drops citations to dates that were not in the input
+export function toPoints(value: unknown, reflectionDates: Set<string>): SummaryPoint[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(point => typeof point?.text === 'string' && point.text.trim())
+    .map(point => ({
+      text: point.text.trim(),
+      sourceDates: Array.isArray(point.sourceDates)
+        ? [...new Set<string>(point.sourceDates.filter((date: unknown) => typeof date === 'string' && reflectionDates.has(date)))].sort()
+        : []
+    }))
+}
+
+/**
+ * Asks the model for a weekly or sprint summary as a structured object. Every
+ * bullet cites the reflection dates it came from so the viewer can link to them.
+ */
+export function generateWeeklySummaryContent(
+  reflections: ReflectionData[],
+  weekStart: string,
+  weekEnd: string
+): Promise<WeeklySummaryContent> {
+  return getAI().summarizeWeek({ reflections, startDate: weekStart, endDate: weekEnd })
+}
+
+/**
+ * Generates and stores the summary for a week or sprint. When `existing` is given it is
+ * regenerated in place and its current content is kept as a previous version.
+ * Returns null when the week has no reflections.
+ */
+export async function createWeeklySummary(
+  userId: string,
+  weekStart: string,
+  weekEnd: string,
+  existing?: WeeklySummary | null
+) {
+  const weekReflections = await reflectionRepository.listBetween(userId, weekStart, weekEnd)
+  if (weekReflections.length === 0) return null
+
+  const content = await generateWeeklySummaryContent(weekReflections, weekStart, weekEnd)
+
+  const summary: WeeklySummary = {
+    id: existing?.id ?? Date.now().toString(),
+    weekStartDate: weekStart,
+    weekEndDate: weekEnd,
+    period: periodOfRange(weekStart, weekEnd),
+    ...content,
+    createdAt: new Date().toISOString(),
+    previousVersions: existing
+      ? [
+          {
+            summaryText: existing.summaryText,
+            progressHighlights: existing.progressHighlights,
+            challengesIdentified: existing.challengesIdentified,
+            mentalBlocksAddressed: existing.mentalBlocksAddressed,
+            recommendations: existing.recommendations,
+            createdAt: existing.createdAt
+          },
+          ...(existing.previousVersions ?? [])
+        ]
+      : []
+  }
+
+  await summaryRepository.save(userId, summary)
+  return summary
+}
+
+// Completed periods before the current one that have reflections but no summary, oldest first
+export async function findPeriodsWithoutSummary(userId: string, today: string, settings: ReportingSettings) {
+  const currentPeriod = getPeriodRange(today, settings)
+  const summarized = new Set((await summaryRepository.list(userId)).map(s => `${s.weekStartDate}_${s.weekEndDate}`))
+
+  const periods = new Map<string, { start: string; end: string }>()
+  for (const reflection of await reflectionRepository.list(userId)) {
+    if (!reflection.messages?.length) continue
+    const period = getPeriodRange(reflection.date, settings)
+    if (period.start < currentPeriod.start && !summarized.has(`${period.start}_${period.end}`)) {
+      periods.set(period.start, period)
+    }
+  }
+
+  return [...periods.values()].sort((a, b) => a.start.localeCompare(b.start))
+}
@@ -0,0 +1,183 @@
+import {
+  reflectionRepository,
+  type MentalBlockId,
+  type ReflectionData,
+  type WellbeingCheckIn,
+  type WellbeingDimension,
+  type WellbeingScores
+} from '../storage'
+import { MENTAL_BLOCKS, MENTAL_BLOCK_IDS } from './mental-blocks'
+
+export interface WellbeingDimensionInfo {
+  label: string
+  low: string // slider caption at 1
+  high: string // slider caption at 10
+}
+
+export const WELLBEING_DIMENSIONS: Record<WellbeingDimension, WellbeingDimensionInfo> = {
+  mood: { label: 'Mood', low: 'Low', high: 'Great' },
+  energy: { label: 'Energy', low: 'Drained', high: 'Full of energy' },
+  stress: { label: 'Stress', low: 'Calm', high: 'Very stressed' }
+}
+
+export const WELLBEING_DIMENSION_IDS = Object.keys(WELLBEING_DIMENSIONS) as WellbeingDimension[]
+
+export const DEFAULT_WELLBEING: WellbeingScores = { mood: 5, energy: 5, stress: 5 }
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+
+const scoresFrom = (pick: (dimension: WellbeingDimension) => number) =>
+  Object.fromEntries(WELLBEING_DIMENSION_IDS.map(d => [d, pick(d)])) as WellbeingScores
+
+export const recordCheckIn = (scores: WellbeingScores, at = Date.now()): WellbeingCheckIn =>
+  ({ ...scores, recordedAt: new Date(at).toISOString() })
+
+/**
+ * Adds the end-of-session check-in to a finished reflection. The stored
+ * reflection is re-read first, so a wrap-up, assessment or block analysis
+ * saved since the session ended is kept.
+ */
+export async function saveEndCheckIn(userId: string, reflectionId: string, scores: WellbeingScores) {
+  const latest = await reflectionRepository.get(userId, reflectionId)
+  if (!latest?.sessionState) return null
+  const checkedIn: ReflectionData = {
+    ...latest,
+    sessionState: {
+      ...latest.sessionState,
+      checkIns: { ...latest.sessionState.checkIns, end: recordCheckIn(scores) }
+    },
+    updatedAt: Date.now()
+  }
+  await reflectionRepository.save(checkedIn)
+  return checkedIn
+}
+
+// A session's wellbeing as the average of its check-ins, or null if the founder skipped both
+export function sessionWellbeing(reflection: ReflectionData): WellbeingScores | null {
+  const { start, end } = reflection.sessionState?.checkIns ?? {}
+  const checkIns = [start, end].filter((c): c is WellbeingCheckIn => Boolean(c))
+  if (checkIns.length === 0) return null
+  return scoresFrom(d => average(checkIns.map(c => c[d])))
+}
+
+export interface WellbeingPoint extends WellbeingScores {
+  date: string
+  sessionCount: number
+}
+
+// One point per day with check-ins, oldest first, averaging that day's sessions
+export function wellbeingTrend(reflections: ReflectionData[]): WellbeingPoint[] {
+  const byDate = new Map<string, WellbeingScores[]>()
+  for (const reflection of reflections) {
+    const scores = sessionWellbeing(reflection)
+    if (scores) byDate.set(reflection.date, [...(byDate.get(reflection.date) ?? []), scores])
+  }
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, sessions]) => ({
+      date,
+      sessionCount: sessions.length,
+      ...scoresFrom(d => Math.round(average(sessions.map(s => s[d])) * 10) / 10)
+    }))
+}
+
+// Average change from the start to the end check-in, over sessions that have both
+export function sessionShift(reflections: ReflectionData[]) {
+  const paired = reflections
+    .map(r => r.sessionState?.checkIns)
+    .filter(c => c?.start && c.end) as { start: WellbeingCheckIn, end: WellbeingCheckIn }[]
+  if (paired.length === 0) return null
+  return { sessionCount: paired.length, ...scoresFrom(d => average(paired.map(c => c.end[d] - c.start[d]))) }
+}
+
+export type LinkStrength = 'none' | 'weak' | 'moderate' | 'strong'
+
+export interface ProgressLink {
+  dimension: WellbeingDimension
+  correlation: number // Pearson's r between the dimension and progress scores
+  strength: LinkStrength
+  sessionCount: number
+}
+
+export interface BlockWellbeing {
+  block: MentalBlockId
+  sessionCount: number // checked-in sessions the block showed up in
+  difference: WellbeingScores // average with the block minus average without it
+}
+
+// Fewer sessions than this and a correlation is mostly noise
+const MIN_SESSIONS_FOR_LINK = 5
+// Sessions needed on each side, with and without a block, before comparing them
+const MIN_SESSIONS_PER_SIDE = 2
+
+const strengthOf = (r: number): LinkStrength => {
+  const size = Math.abs(r)
+  return size < 0.2 ? 'none' : size < 0.4 ? 'weak' : size < 0.6 ? 'moderate' : 'strong'
+}
+
+// Pearson's r, or null when either side never varies
+function correlation(xs: number[], ys: number[]) {
+  const mx = average(xs)
+  const my = average(ys)
+  let covariance = 0
+  let vx = 0
+  let vy = 0
+  xs.forEach((x, i) => {
+    covariance += (x - mx) * (ys[i] - my)
+    vx += (x - mx) ** 2
+    vy += (ys[i] - my) ** 2
+  })
+  return vx > 0 && vy > 0 ? covariance / Math.sqrt(vx * vy) : null
+}
+
+// How each dimension moves with the session's progress score, across sessions that have both
+export function progressLinks(reflections: ReflectionData[]): ProgressLink[] {
+  const sessions = reflections
+    .map(r => ({ scores: sessionWellbeing(r), progress: r.assessment?.progressScore }))
+    .filter((s): s is { scores: WellbeingScores, progress: number } => s.scores !== null && s.progress !== undefined)
+  if (sessions.length < MIN_SESSIONS_FOR_LINK) return []
+
+  return WELLBEING_DIMENSION_IDS.flatMap(dimension => {
+    const r = correlation(sessions.map(s => s.scores[dimension]), sessions.map(s => s.progress))
+    return r === null ? [] : [{ dimension, correlation: r, strength: strengthOf(r), sessionCount: sessions.length }]
+  })
+}
+
+/**
+ * How wellbeing differs in sessions where a block showed up, against
+ * classified sessions where it did not. Strongest differences first.
+ */
+export function blockWellbeing(reflections: ReflectionData[]): BlockWellbeing[] {
+  const sessions = reflections
+    .filter(r => r.blockAnalysis)
+    .map(r => ({ scores: sessionWellbeing(r), blocks: r.blockAnalysis!.detections.map(d => d.block) }))
+    .filter((s): s is { scores: WellbeingScores, blocks: MentalBlockId[] } => s.scores !== null)
+
+  const largest = (scores: WellbeingScores) => Math.max(...WELLBEING_DIMENSION_IDS.map(d => Math.abs(scores[d])))
+
+  return MENTAL_BLOCK_IDS
+    .flatMap(block => {
+      const withBlock = sessions.filter(s => s.blocks.includes(block))
+      const without = sessions.filter(s => !s.blocks.includes(block))
+      if (withBlock.length < MIN_SESSIONS_PER_SIDE || without.length < MIN_SESSIONS_PER_SIDE) return []
+      return [{
+        block,
+        sessionCount: withBlock.length,
+        difference: scoresFrom(d => average(withBlock.map(s => s.scores[d])) - average(without.map(s => s.scores[d])))
+      }]
+    })
+    .sort((a, b) => largest(b.difference) - largest(a.difference))
+}
+
+export function describeProgressLink({ dimension, correlation, strength }: ProgressLink) {
+  const label = WELLBEING_DIMENSIONS[dimension].label
+  if (strength === 'none') return `${label} shows no clear link with your progress scores`
+  return `Higher ${label.toLowerCase()} goes with ${correlation > 0 ? 'higher' : 'lower'} progress scores (${strength}, r = ${correlation.toFixed(2)})`
+}
+
+// The dimension that differs most when the block shows up, in words
+export function describeBlockWellbeing({ block, difference }: BlockWellbeing) {
+  const dimension = WELLBEING_DIMENSION_IDS.reduce((best, d) => Math.abs(difference[d]) > Math.abs(difference[best]) ? d : best)
+  const change = difference[dimension]
+  return `${MENTAL_BLOCKS[block].label}: ${WELLBEING_DIMENSIONS[dimension].label.toLowerCase()} is ${Math.abs(change).toFixed(1)} ${change > 0 ? 'higher' : 'lower'} in sessions where it shows up`
+}
@@ -0,0 +1,83 @@
+// Payloads exactly as earlier versions of the app left them in localStorage
+
+// Before versioning: a bare object keyed by date, sessionState without topics
+export const LEGACY_REFLECTION = JSON.stringify({
+  messages: [
+    { id: '1', role: 'assistant', content: 'What did you get done today?', timestamp: 1736067600000 },
+    { id: '2', role: 'user', content: 'Shipped the onboarding flow.', timestamp: 1736067660000 }
+  ],
+  sessionState: { startTime: 1736067600000, questionCount: 1, maxQuestions: 5, isComplete: false },
+  date: '2025-01-05',
+  userId: 'user-1',
+  updatedAt: 1736067660000
+})
+
+// Version 2: sessions had no id of their own yet
+export const REFLECTION_V2 = JSON.stringify({
+  version: 2,
+  data: {
+    messages: [{ id: '1', role: 'assistant', content: 'What did you get done today?', timestamp: 1736154000000 }],
+    sessionState: {
+      startTime: 1736154000000,
+      questionCount: 0,
+      maxQuestions: 5,
+      isComplete: false,
+      topics: ['hiring'],
+      topicCoverage: {},
+      currentFocus: 'hiring'
+    },
+    date: '2025-01-06',
+    userId: 'user-1',
+    updatedAt: 1736154000000
+  }
+})
+
+// Before versioning: string bullets, with lists missing on some summaries
+export const LEGACY_SUMMARIES = JSON.stringify([
+  {
+    id: 'week-2',
+    weekStartDate: '2025-01-13',
+    weekEndDate: '2025-01-19',
+    summaryText: 'A steadier week.',
+    progressHighlights: ['Closed two pilots'],
+    recommendations: ['Block mornings for deep work'],
+    createdAt: '2025-01-19T18:00:00.000Z'
+  },
+  {
+    id: 'week-1',
+    weekStartDate: '2025-01-06',
+    weekEndDate: '2025-01-12',
+    summaryText: 'Busy week.',
+    progressHighlights: ['Shipped onboarding', 42],
+    challengesIdentified: ['Hiring is slow'],
+    mentalBlocksAddressed: [],
+    recommendations: [],
+    createdAt: '2025-01-12T18:00:00.000Z'
+  }
+])
+
+export const SUMMARIES_V2 = JSON.stringify({
+  version: 2,
+  data: [
+    {
+      id: 'week-1',
+      weekStartDate: '2025-01-06',
+      weekEndDate: '2025-01-12',
+      summaryText: 'Busy week.',
+      progressHighlights: ['Shipped onboarding'],
+      challengesIdentified: ['Hiring is slow'],
+      mentalBlocksAddressed: ['Perfectionism'],
+      recommendations: ['Ship smaller releases'],
+      createdAt: '2025-01-12T18:00:00.000Z'
+    }
+  ]
+})
+
+// Before versioning: early profiles had no streak fields
+export const LEGACY_PROFILE = JSON.stringify({
+  name: 'Sam',
+  company: 'Acme',
+  stage: 'seed',
+  goals: ['Reach $10k MRR'],
+  createdAt: '2025-01-01T09:00:00.000Z'
+})
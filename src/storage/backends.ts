@@ -0,0 +1,45 @@
+/**
+ * Key/value persistence used by the repositories. Every method is async so a
+ * remote or IndexedDB-backed store can be dropped in without touching callers.
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  keys(prefix: string): Promise<string[]>
+}
+
+export const localStorageBackend: StorageBackend = {
+  async getItem(key) {
+    return localStorage.getItem(key)
+  },
+  async setItem(key, value) {
+    localStorage.setItem(key, value)
+  },
+  async removeItem(key) {
+    localStorage.removeItem(key)
+  },
+  async keys(prefix) {
+    return Object.keys(localStorage).filter(key => key.startsWith(prefix))
+  }
+}
+
+// In-memory backend, handy for previews and for running the repositories outside a browser
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend {
+  const items = new Map(Object.entries(initial))
+
+  return {
+    async getItem(key) {
+      return items.get(key) ?? null
+    },
+    async setItem(key, value) {
+      items.set(key, value)
+    },
+    async removeItem(key) {
+      items.delete(key)
+    },
+    async keys(prefix) {
+      return [...items.keys()].filter(key => key.startsWith(prefix))
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { blink } from '../blink/client'
+import { localStorageBackend, type StorageBackend } from './backends'
+import { createIssueLog, type IssueLog } from './issues'
+import {
+  CommitmentRepository,
+  ProfileRepository,
+  ReflectionRepository,
+  RetrospectiveRepository,
+  SummaryRepository
+} from './repositories'
+import { SyncQueue } from './sync'
+
+export * from './types'
+export { localStorageBackend, createMemoryBackend, type StorageBackend } from './backends'
+export { createIssueLog, type IssueLog, type StorageIssue } from './issues'
+export {
+  CURRENT_VERSION,
+  CorruptRecordError,
+  NewerVersionError,
+  decodeRecord,
+  encodeRecord,
+  migrateRecord,
+  type Envelope,
+  type RecordKind
+} from './migrations'
+export { createMemoryDatabase, type MemoryDatabase, type RemoteDatabase, type SyncRow } from './remote'
+export {
+  CommitmentRepository,
+  ProfileRepository,
+  ReflectionRepository,
+  RetrospectiveRepository,
+  SummaryRepository,
+  isProfileComplete
+} from './repositories'
+export { SyncQueue, reconcile } from './sync'
+
+export function createRepositories(backend: StorageBackend, sync?: SyncQueue, issues?: IssueLog) {
+  return {
+    reflections: new ReflectionRepository(backend, sync, issues),
+    summaries: new SummaryRepository(backend, sync, issues),
+    retrospectives: new RetrospectiveRepository(backend, sync, issues),
+    commitments: new CommitmentRepository(backend, sync, issues),
+    profiles: new ProfileRepository(backend, sync, issues)
+  }
+}
+
+// Records that failed to load or migrate are reported here
+export const storageIssues = createIssueLog()
+
+// Local writes are mirrored to blink.db through this queue
+export const syncQueue = new SyncQueue(blink.db, localStorageBackend)
+
+// App-wide repositories; every screen reads and writes through these
+export const {
+  reflections: reflectionRepository,
+  summaries: summaryRepository,
+  retrospectives: retrospectiveRepository,
+  commitments: commitmentRepository,
+  profiles: profileRepository
+} = createRepositories(localStorageBackend, syncQueue, storageIssues)
+
+// Pulls remote changes for the user and uploads anything only stored locally
+export async function syncUserData(userId: string) {
+  try {
+    await Promise.all([
+      reflectionRepository.pull(userId),
+      summaryRepository.pull(userId),
+      retrospectiveRepository.pull(userId),
+      commitmentRepository.pull(userId),
+      profileRepository.pull(userId)
+    ])
+  } catch (error) {
+    console.warn('Sync unavailable, continuing with local data:', error)
+  }
+}
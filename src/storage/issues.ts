@@ -0,0 +1,38 @@
+import type { RecordKind } from './migrations'
+
+export interface StorageIssue {
+  key: string
+  kind: RecordKind
+  reason: string
+  skipped?: boolean // left in place rather than set aside, e.g. written by a newer version of the app
+  detectedAt: number
+}
+
+type IssueListener = (issue: StorageIssue) => void
+
+// Collects records that could not be read so the UI can surface them
+export function createIssueLog() {
+  const issues: StorageIssue[] = []
+  const listeners = new Set<IssueListener>()
+
+  return {
+    report(issue: Omit<StorageIssue, 'detectedAt'>) {
+      // A skipped record is met again on every load; tell the founder about it once
+      if (issues.some(i => i.key === issue.key && i.reason === issue.reason)) return
+      const entry = { ...issue, detectedAt: Date.now() }
+      issues.push(entry)
+      listeners.forEach(listener => listener(entry))
+    },
+    list() {
+      return [...issues]
+    },
+    subscribe(listener: IssueListener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
+
+export type IssueLog = ReturnType<typeof createIssueLog>
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { LEGACY_PROFILE, LEGACY_REFLECTION, LEGACY_SUMMARIES, REFLECTION_V2, SUMMARIES_V2 } from './__fixtures__/records'
+import { createMemoryBackend } from './backends'
+import { createIssueLog } from './issues'
+import { CorruptRecordError, CURRENT_VERSION, decodeRecord, encodeRecord, migrateRecord, NewerVersionError } from './migrations'
+import { ReflectionRepository } from './repositories'
+
+const reflection = {
+  id: 'session-1',
+  date: '2026-01-05',
+  userId: 'user-1',
+  messages: [{ id: 'm1', role: 'assistant', content: 'How did today go?', timestamp: 1767603600000 }],
+  updatedAt: 1767603600000
+}
+
+describe('decodeRecord', () => {
+  it.each([
+    ['reflection', 'legacy', LEGACY_REFLECTION],
+    ['reflection', 'v2', REFLECTION_V2],
+    ['summaries', 'legacy', LEGACY_SUMMARIES],
+    ['summaries', 'v2', SUMMARIES_V2],
+    ['profile', 'legacy', LEGACY_PROFILE]
+  ] as const)('upgrades a %s record from %s', (kind, _version, raw) => {
+    const { data, migrated } = decodeRecord(kind, raw)
+    expect(migrated).toBe(true)
+    expect(data).toMatchSnapshot()
+  })
+
+  it('keys a pre-session reflection by its date', () => {
+    const { data } = decodeRecord<{ id: string; sessionState: { topics: string[] } }>('reflection', LEGACY_REFLECTION)
+    expect(data.id).toBe('2025-01-05')
+    expect(data.sessionState.topics).toEqual([])
+  })
+
+  it('turns summary bullets into cited points, dropping anything that is not text', () => {
+    const { data } = decodeRecord<{ progressHighlights: unknown[]; challengesIdentified: unknown[] }[]>('summaries', LEGACY_SUMMARIES)
+    expect(data[0].challengesIdentified).toEqual([])
+    expect(data[1].progressHighlights).toEqual([{ text: 'Shipped onboarding', sourceDates: [] }])
+  })
+
+  it('reads back what it writes without migrating again', () => {
+    const { data } = decodeRecord('summaries', SUMMARIES_V2)
+    expect(decodeRecord('summaries', encodeRecord('summaries', data))).toEqual({ data, migrated: false })
+  })
+
+  it.each([
+    ['reflection', { ...reflection, messages: undefined }],
+    ['reflection', { ...reflection, messages: [null] }],
+    ['summaries', [null]],
+    ['summaries', [{ weekStartDate: '2025-01-06' }]],
+    ['commitments', [null]],
+    ['profile', null]
+  ] as const)('reports a malformed %s as corrupt', (kind, data) => {
+    const raw = JSON.stringify({ version: CURRENT_VERSION[kind], data })
+    expect(() => decodeRecord(kind, raw)).toThrow(CorruptRecordError)
+  })
+})
+
+describe('migrateRecord', () => {
+  it('rejects a record from a newer version without calling it corrupt', () => {
+    const payload = { version: CURRENT_VERSION.reflection + 1, data: reflection }
+    expect(() => migrateRecord('reflection', payload)).toThrow(NewerVersionError)
+  })
+})
+
+describe('reading stored records', () => {
+  it('sets a corrupt reflection aside and still lists the rest', async () => {
+    const backend = createMemoryBackend({
+      'reflection_user-1_broken': JSON.stringify({ version: CURRENT_VERSION.reflection, data: { ...reflection, messages: null } }),
+      'reflection_user-1_2025-01-05': LEGACY_REFLECTION
+    })
+    const issues = createIssueLog()
+    const reflections = new ReflectionRepository(backend, undefined, issues)
+
+    expect((await reflections.list('user-1')).map(r => r.id)).toEqual(['2025-01-05'])
+    expect(await backend.getItem('reflection_user-1_broken')).toBeNull()
+    expect(await backend.getItem('corrupted_reflection_user-1_broken')).not.toBeNull()
+    expect(issues.list()).toMatchObject([{ key: 'reflection_user-1_broken', kind: 'reflection' }])
+  })
+
+  it('leaves a newer-version record in place and reports it once', async () => {
+    const key = 'reflection_user-1_session-1'
+    const raw = JSON.stringify({ version: CURRENT_VERSION.reflection + 1, data: reflection })
+    const backend = createMemoryBackend({ [key]: raw })
+    const issues = createIssueLog()
+    const reflections = new ReflectionRepository(backend, undefined, issues)
+
+    expect(await reflections.list('user-1')).toEqual([])
+    expect(await reflections.list('user-1')).toEqual([])
+
+    expect(await backend.getItem(key)).toBe(raw)
+    expect(await backend.getItem(`corrupted_${key}`)).toBeNull()
+    expect(issues.list()).toHaveLength(1)
+    expect(issues.list()[0]).toMatchObject({ key, kind: 'reflection', skipped: true })
+  })
+})
@@ -0,0 +1,179 @@
+export type RecordKind = 'reflection' | 'summaries' | 'retrospectives' | 'commitments' | 'profile'
+
+/**
+ * Every payload is written as `{ version, data }`. Payloads written before
+ * versioning existed are bare objects and are treated as version 1.
+ */
+export interface Envelope<T> {
+  version: number
+  data: T
+}
+
+export class CorruptRecordError extends Error {
+  constructor(reason: string) {
+    super(reason)
+    this.name = 'CorruptRecordError'
+  }
+}
+
+// Written by a newer version of the app, e.g. from another tab after a deploy; readable once this app updates
+export class NewerVersionError extends Error {
+  constructor(reason: string) {
+    super(reason)
+    this.name = 'NewerVersionError'
+  }
+}
+
+type Migration = (data: any) => any
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+const toSummaryPoint = (text: string) => ({ text, sourceDates: [] })
+
+// migrations[kind][n] upgrades a payload from version n + 1 to n + 2
+const migrations: Record<RecordKind, Migration[]> = {
+  reflection: [
+    // v1 -> v2: older sessionState copies lacked topics/topicCoverage/currentFocus
+    data => ({
+      ...data,
+      messages: Array.isArray(data.messages) ? data.messages : [],
+      updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.parse(data.updatedAt) || 0,
+      sessionState: isObject(data.sessionState)
+        ? {
+            topics: [],
+            topicCoverage: {},
+            currentFocus: null,
+            ...data.sessionState
+          }
+        : undefined
+    }),
+    // v2 -> v3: sessions gained their own id so a day can hold several; the old one-per-day key was the date
+    data => ({
+      ...data,
+      id: typeof data.id === 'string' ? data.id : data.date
+    })
+  ],
+  summaries: [
+    // v1 -> v2: make sure every summary carries all bullet lists
+    data => (Array.isArray(data) ? data : []).filter(isObject).map(summary => ({
+      ...summary,
+      progressHighlights: asStringArray(summary.progressHighlights),
+      challengesIdentified: asStringArray(summary.challengesIdentified),
+      mentalBlocksAddressed: asStringArray(summary.mentalBlocksAddressed),
+      recommendations: asStringArray(summary.recommendations)
+    })),
+    // v2 -> v3: bullets became { text, sourceDates } so they can cite reflections
+    data => data.map((summary: Record<string, any>) => ({
+      ...summary,
+      progressHighlights: summary.progressHighlights.map(toSummaryPoint),
+      challengesIdentified: summary.challengesIdentified.map(toSummaryPoint),
+      mentalBlocksAddressed: summary.mentalBlocksAddressed.map(toSummaryPoint),
+      recommendations: summary.recommendations.map(toSummaryPoint)
+    }))
+  ],
+  retrospectives: [],
+  commitments: [],
+  profile: [
+    // v1 -> v2: fill list and streak fields that early profiles omitted
+    data => ({
+      ...data,
+      goals: asStringArray(data.goals),
+      currentChallenges: asStringArray(data.currentChallenges),
+      reflectionStreak: typeof data.reflectionStreak === 'number' ? data.reflectionStreak : 0,
+      lastReflectionDate: typeof data.lastReflectionDate === 'string' ? data.lastReflectionDate : ''
+    })
+  ]
+}
+
+// Shape checks run on the fully migrated payload
+const validators: Record<RecordKind, (data: any) => string | null> = {
+  reflection: data => {
+    if (!isObject(data)) return 'reflection is not an object'
+    if (typeof data.date !== 'string') return 'reflection has no date'
+    if (typeof data.userId !== 'string') return 'reflection has no userId'
+    if (!Array.isArray(data.messages) || !data.messages.every((m: unknown) => isObject(m) && typeof m.content === 'string')) {
+      return 'reflection contains malformed messages'
+    }
+    return null
+  },
+  summaries: data => {
+    if (!Array.isArray(data)) return 'summaries are not a list'
+    if (!data.every(s => isObject(s) && typeof s.id === 'string' && typeof s.weekStartDate === 'string')) {
+      return 'summary is missing its id or week'
+    }
+    return null
+  },
+  retrospectives: data => {
+    if (!Array.isArray(data)) return 'retrospectives are not a list'
+    if (!data.every(r => isObject(r) && typeof r.id === 'string' && typeof r.startDate === 'string')) {
+      return 'retrospective is missing its id or period'
+    }
+    return null
+  },
+  commitments: data => {
+    if (!Array.isArray(data)) return 'commitments are not a list'
+    if (!data.every(c => isObject(c) && typeof c.id === 'string' && typeof c.text === 'string')) {
+      return 'commitment is missing its id or text'
+    }
+    return null
+  },
+  profile: data => (isObject(data) ? null : 'profile is not an object')
+}
+
+export const CURRENT_VERSION: Record<RecordKind, number> = {
+  reflection: migrations.reflection.length + 1,
+  summaries: migrations.summaries.length + 1,
+  retrospectives: migrations.retrospectives.length + 1,
+  commitments: migrations.commitments.length + 1,
+  profile: migrations.profile.length + 1
+}
+
+const isEnvelope = (value: unknown): value is Envelope<unknown> =>
+  isObject(value) && typeof value.version === 'number' && 'data' in value
+
+/**
+ * Upgrades a parsed payload (bare legacy object or envelope) to the current
+ * version. Throws NewerVersionError when a newer app wrote it and
+ * CorruptRecordError when it cannot be used.
+ */
+export function migrateRecord<T>(kind: RecordKind, payload: unknown): { data: T; migrated: boolean } {
+  const envelope = isEnvelope(payload) ? payload : { version: 1, data: payload }
+  const target = CURRENT_VERSION[kind]
+
+  if (envelope.version > target) {
+    throw new NewerVersionError(`${kind} version ${envelope.version} is newer than this app supports`)
+  }
+
+  let data = envelope.data
+  for (let version = envelope.version; version < target; version++) {
+    try {
+      data = migrations[kind][version - 1](data)
+    } catch (error) {
+      throw new CorruptRecordError(`${kind} migration to v${version + 1} failed: ${(error as Error).message}`)
+    }
+  }
+
+  const problem = validators[kind](data)
+  if (problem) throw new CorruptRecordError(problem)
+
+  return { data: data as T, migrated: envelope.version !== target }
+}
+
+export function decodeRecord<T>(kind: RecordKind, raw: string) {
+  let payload: unknown
+  try {
+    payload = JSON.parse(raw)
+  } catch {
+    throw new CorruptRecordError(`${kind} is not valid JSON`)
+  }
+  return migrateRecord<T>(kind, payload)
+}
+
+export function encodeRecord<T>(kind: RecordKind, data: T) {
+  const envelope: Envelope<T> = { version: CURRENT_VERSION[kind], data }
+  return JSON.stringify(envelope)
+}
@@ -0,0 +1,72 @@
+import type { QueryOptions, TableOperations } from '@blinkdotnew/sdk'
+
+// The slice of blink.db the sync queue relies on, so tests can swap in createMemoryDatabase
+export type RemoteTable<T> = Pick<TableOperations<T>, 'get' | 'list' | 'upsert'>
+
+export interface RemoteDatabase {
+  table<T = any>(tableName: string): RemoteTable<T>
+}
+
+/**
+ * Row shape shared by the reflections, weekly_summaries and founder_profiles
+ * tables. The record itself is stored as JSON in `data`; `updatedAt` is an ISO
+ * timestamp used for last-write-wins conflict resolution.
+ */
+export interface SyncRow {
+  id: string
+  userId: string
+  data: string
+  updatedAt: string
+}
+
+export interface MemoryDatabase extends RemoteDatabase {
+  setOffline(offline: boolean): void
+  rows(tableName: string): any[]
+}
+
+// In-memory stand-in for blink.db; equality filters in `where` are the only query feature supported
+export function createMemoryDatabase(): MemoryDatabase {
+  const tables = new Map<string, Map<string, any>>()
+  let offline = false
+
+  const getTable = (tableName: string) => {
+    const table = tables.get(tableName) ?? new Map<string, any>()
+    tables.set(tableName, table)
+    return table
+  }
+
+  const ensureOnline = () => {
+    if (offline) throw new Error('Network unavailable')
+  }
+
+  return {
+    table<T = any>(tableName: string): RemoteTable<T> {
+      const table = getTable(tableName)
+      return {
+        async get(id) {
+          ensureOnline()
+          return table.get(id) ?? null
+        },
+        async list(options?: QueryOptions) {
+          ensureOnline()
+          const where = (options?.where ?? {}) as Record<string, unknown>
+          return [...table.values()].filter(row =>
+            Object.entries(where).every(([key, value]) => row[key] === value)
+          )
+        },
+        async upsert(data) {
+          ensureOnline()
+          const row = { ...table.get((data as any).id), ...data }
+          table.set(row.id, row)
+          return row
+        }
+      }
+    },
+    setOffline(value) {
+      offline = value
+    },
+    rows(tableName) {
+      return [...getTable(tableName).values()]
+    }
+  }
+}
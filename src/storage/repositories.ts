@@ -0,0 +1,465 @@
+import type { StorageBackend } from './backends'
+import { createIssueLog, type IssueLog } from './issues'
+import { CorruptRecordError, decodeRecord, encodeRecord, NewerVersionError, type RecordKind } from './migrations'
+import type { SyncRow } from './remote'
+import { reconcile, type SyncQueue } from './sync'
+import type { Commitment, FounderProfile, ReflectionData, Retrospective, WeeklySummary } from './types'
+
+type Listener = () => void
+
+const REFLECTIONS_TABLE = 'reflections'
+const SUMMARIES_TABLE = 'weekly_summaries'
+const RETROSPECTIVES_TABLE = 'retrospectives'
+const COMMITMENTS_TABLE = 'commitments'
+const PROFILES_TABLE = 'founder_profiles'
+
+// Per-user change listeners shared by all repositories
+function createChangeEmitter() {
+  const listeners = new Map<string, Set<Listener>>()
+
+  return {
+    subscribe(userId: string, listener: Listener) {
+      const userListeners = listeners.get(userId) ?? new Set<Listener>()
+      userListeners.add(listener)
+      listeners.set(userId, userListeners)
+      return () => {
+        userListeners.delete(listener)
+      }
+    },
+    emit(userId: string) {
+      listeners.get(userId)?.forEach(listener => listener())
+    }
+  }
+}
+
+/**
+ * Reads a versioned record, persisting it back when a migration upgraded it.
+ * Unreadable records are moved aside to `corrupted_<key>` and reported rather
+ * than being silently skipped on every load. Records from a newer version of
+ * the app are reported and skipped but left in place.
+ */
+async function readRecord<T>(backend: StorageBackend, issues: IssueLog, kind: RecordKind, key: string) {
+  const raw = await backend.getItem(key)
+  if (!raw) return null
+  try {
+    const { data, migrated } = decodeRecord<T>(kind, raw)
+    if (migrated) await backend.setItem(key, encodeRecord(kind, data))
+    return data
+  } catch (error) {
+    if (error instanceof NewerVersionError) {
+      issues.report({ key, kind, reason: error.message, skipped: true })
+      return null
+    }
+    if (!(error instanceof CorruptRecordError)) throw error
+    await backend.setItem(`corrupted_${key}`, raw)
+    await backend.removeItem(key)
+    issues.report({ key, kind, reason: error.message })
+    return null
+  }
+}
+
+// Decodes the payload of a remote row, reporting rows that cannot be used
+function parseRow<T>(issues: IssueLog, kind: RecordKind, table: string, row: SyncRow) {
+  try {
+    return decodeRecord<T>(kind, row.data).data
+  } catch (error) {
+    if (!(error instanceof CorruptRecordError || error instanceof NewerVersionError)) throw error
+    issues.report({ key: `${table}/${row.id}`, kind, reason: error.message, skipped: error instanceof NewerVersionError })
+    return null
+  }
+}
+
+export class ReflectionRepository {
+  private backend: StorageBackend
+  private sync?: SyncQueue
+  private issues: IssueLog
+  private changes = createChangeEmitter()
+
+  constructor(backend: StorageBackend, sync?: SyncQueue, issues: IssueLog = createIssueLog()) {
+    this.backend = backend
+    this.sync = sync
+    this.issues = issues
+  }
+
+  private prefix(userId: string) {
+    return `reflection_${userId}_`
+  }
+
+  async get(userId: string, sessionId: string) {
+    return readRecord<ReflectionData>(this.backend, this.issues, 'reflection', `${this.prefix(userId)}${sessionId}`)
+  }
+
+  // All sessions for the user, newest first
+  async list(userId: string) {
+    const keys = await this.backend.keys(this.prefix(userId))
+    const reflections: ReflectionData[] = []
+    for (const key of keys) {
+      const reflection = await readRecord<ReflectionData>(this.backend, this.issues, 'reflection', key)
+      if (reflection) reflections.push(reflection)
+    }
+    return reflections.sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id))
+  }
+
+  // Sessions held on one day, in the order they were started
+  async listByDate(userId: string, date: string) {
+    const reflections = await this.list(userId)
+    return reflections.filter(r => r.date === date).reverse()
+  }
+
+  // Sessions with at least one message between two YYYY-MM-DD dates (inclusive), oldest first
+  async listBetween(userId: string, startDate: string, endDate: string) {
+    const reflections = await this.list(userId)
+    return reflections
+      .filter(r => r.messages?.length > 0 && r.date >= startDate && r.date <= endDate)
+      .reverse()
+  }
+
+  private toRow(reflection: ReflectionData): SyncRow {
+    return {
+      id: `${reflection.userId}_${reflection.id}`,
+      userId: reflection.userId,
+      data: encodeRecord('reflection', reflection),
+      updatedAt: new Date(reflection.updatedAt).toISOString()
+    }
+  }
+
+  private async write(reflection: ReflectionData) {
+    await this.backend.setItem(
+      `${this.prefix(reflection.userId)}${reflection.id}`,
+      encodeRecord('reflection', reflection)
+    )
+  }
+
+  async save(reflection: ReflectionData) {
+    await this.write(reflection)
+    this.changes.emit(reflection.userId)
+    await this.sync?.enqueue(REFLECTIONS_TABLE, [this.toRow(reflection)])
+  }
+
+  // Merges remote reflections into local storage and queues local-only changes for upload
+  async pull(userId: string) {
+    if (!this.sync) return
+    const rows = await this.sync.pull(REFLECTIONS_TABLE, userId)
+    const { pulled, pushed } = reconcile(
+      await this.list(userId),
+      rows,
+      r => this.toRow(r),
+      row => parseRow<ReflectionData>(this.issues, 'reflection', REFLECTIONS_TABLE, row)
+    )
+    for (const reflection of pulled) {
+      await this.write(reflection)
+    }
+    if (pulled.length > 0) this.changes.emit(userId)
+    if (pushed.length > 0) await this.sync.enqueue(REFLECTIONS_TABLE, pushed)
+  }
+
+  subscribe(userId: string, listener: Listener) {
+    return this.changes.subscribe(userId, listener)
+  }
+}
+
+export class SummaryRepository {
+  private backend: StorageBackend
+  private sync?: SyncQueue
+  private issues: IssueLog
+  private changes = createChangeEmitter()
+
+  constructor(backend: StorageBackend, sync?: SyncQueue, issues: IssueLog = createIssueLog()) {
+    this.backend = backend
+    this.sync = sync
+    this.issues = issues
+  }
+
+  private key(userId: string) {
+    return `weekly_summaries_${userId}`
+  }
+
+  async list(userId: string) {
+    return (await readRecord<WeeklySummary[]>(this.backend, this.issues, 'summaries', this.key(userId))) ?? []
+  }
+
+  async get(userId: string, summaryId: string) {
+    const summaries = await this.list(userId)
+    return summaries.find(s => s.id === summaryId) ?? null
+  }
+
+  // Weeks and sprints can start on the same day, so a period is matched on both ends
+  async findByPeriod(userId: string, startDate: string, endDate: string) {
+    const summaries = await this.list(userId)
+    return summaries.find(s => s.weekStartDate === startDate && s.weekEndDate === endDate) ?? null
+  }
+
+  private toRow(userId: string, summary: WeeklySummary): SyncRow {
+    return {
+      id: summary.id,
+      userId,
+      // Each row holds a single-item summaries payload so it shares their migrations
+      data: encodeRecord('summaries', [summary]),
+      updatedAt: summary.updatedAt ?? summary.createdAt
+    }
+  }
+
+  // Inserts or replaces the summary by id, keeping the list ordered newest week first
+  async save(userId: string, summary: WeeklySummary) {
+    const saved = { ...summary, updatedAt: new Date().toISOString() }
+    const summaries = [saved, ...(await this.list(userId)).filter(s => s.id !== saved.id)]
+      .sort((a, b) => b.weekStartDate.localeCompare(a.weekStartDate))
+    await this.backend.setItem(this.key(userId), encodeRecord('summaries', summaries))
+    this.changes.emit(userId)
+    await this.sync?.enqueue(SUMMARIES_TABLE, [this.toRow(userId, saved)])
+    return saved
+  }
+
+  // Merges remote summaries into the local list and queues local-only changes for upload
+  async pull(userId: string) {
+    if (!this.sync) return
+    const rows = await this.sync.pull(SUMMARIES_TABLE, userId)
+    const local = await this.list(userId)
+    const { pulled, pushed } = reconcile(
+      local,
+      rows,
+      s => this.toRow(userId, s),
+      row => parseRow<WeeklySummary[]>(this.issues, 'summaries', SUMMARIES_TABLE, row)?.[0] ?? null
+    )
+    if (pulled.length > 0) {
+      const merged = [...pulled, ...local.filter(s => !pulled.some(p => p.id === s.id))]
+        .sort((a, b) => b.weekStartDate.localeCompare(a.weekStartDate))
+      await this.backend.setItem(this.key(userId), encodeRecord('summaries', merged))
+      this.changes.emit(userId)
+    }
+    if (pushed.length > 0) await this.sync.enqueue(SUMMARIES_TABLE, pushed)
+  }
+
+  subscribe(userId: string, listener: Listener) {
+    return this.changes.subscribe(userId, listener)
+  }
+}
+
+export class RetrospectiveRepository {
+  private backend: StorageBackend
+  private sync?: SyncQueue
+  private issues: IssueLog
+  private changes = createChangeEmitter()
+
+  constructor(backend: StorageBackend, sync?: SyncQueue, issues: IssueLog = createIssueLog()) {
+    this.backend = backend
+    this.sync = sync
+    this.issues = issues
+  }
+
+  private key(userId: string) {
+    return `retrospectives_${userId}`
+  }
+
+  // Newest period first; a quarter sorts ahead of the months it starts with
+  private sort(retrospectives: Retrospective[]) {
+    return retrospectives.sort((a, b) => b.startDate.localeCompare(a.startDate) || b.endDate.localeCompare(a.endDate))
+  }
+
+  async list(userId: string) {
+    return (await readRecord<Retrospective[]>(this.backend, this.issues, 'retrospectives', this.key(userId))) ?? []
+  }
+
+  async get(userId: string, retrospectiveId: string) {
+    const retrospectives = await this.list(userId)
+    return retrospectives.find(r => r.id === retrospectiveId) ?? null
+  }
+
+  async findByPeriod(userId: string, startDate: string, endDate: string) {
+    const retrospectives = await this.list(userId)
+    return retrospectives.find(r => r.startDate === startDate && r.endDate === endDate) ?? null
+  }
+
+  private toRow(userId: string, retrospective: Retrospective): SyncRow {
+    return {
+      id: retrospective.id,
+      userId,
+      data: encodeRecord('retrospectives', [retrospective]),
+      updatedAt: retrospective.updatedAt ?? retrospective.createdAt
+    }
+  }
+
+  // Inserts or replaces the retrospective by id
+  async save(userId: string, retrospective: Retrospective) {
+    const saved = { ...retrospective, updatedAt: new Date().toISOString() }
+    const retrospectives = this.sort([saved, ...(await this.list(userId)).filter(r => r.id !== saved.id)])
+    await this.backend.setItem(this.key(userId), encodeRecord('retrospectives', retrospectives))
+    this.changes.emit(userId)
+    await this.sync?.enqueue(RETROSPECTIVES_TABLE, [this.toRow(userId, saved)])
+    return saved
+  }
+
+  // Merges remote retrospectives into the local list and queues local-only changes for upload
+  async pull(userId: string) {
+    if (!this.sync) return
+    const rows = await this.sync.pull(RETROSPECTIVES_TABLE, userId)
+    const local = await this.list(userId)
+    const { pulled, pushed } = reconcile(
+      local,
+      rows,
+      r => this.toRow(userId, r),
+      row => parseRow<Retrospective[]>(this.issues, 'retrospectives', RETROSPECTIVES_TABLE, row)?.[0] ?? null
+    )
+    if (pulled.length > 0) {
+      const merged = this.sort([...pulled, ...local.filter(r => !pulled.some(p => p.id === r.id))])
+      await this.backend.setItem(this.key(userId), encodeRecord('retrospectives', merged))
+      this.changes.emit(userId)
+    }
+    if (pushed.length > 0) await this.sync.enqueue(RETROSPECTIVES_TABLE, pushed)
+  }
+
+  subscribe(userId: string, listener: Listener) {
+    return this.changes.subscribe(userId, listener)
+  }
+}
+
+export class CommitmentRepository {
+  private backend: StorageBackend
+  private sync?: SyncQueue
+  private issues: IssueLog
+  private changes = createChangeEmitter()
+
+  constructor(backend: StorageBackend, sync?: SyncQueue, issues: IssueLog = createIssueLog()) {
+    this.backend = backend
+    this.sync = sync
+    this.issues = issues
+  }
+
+  private key(userId: string) {
+    return `commitments_${userId}`
+  }
+
+  // Oldest commitment first, so follow-ups are asked in the order they were made
+  private sort(commitments: Commitment[]) {
+    return commitments.sort((a, b) => a.sourceDate.localeCompare(b.sourceDate) || a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async list(userId: string) {
+    return (await readRecord<Commitment[]>(this.backend, this.issues, 'commitments', this.key(userId))) ?? []
+  }
+
+  // Commitments still awaiting an outcome, including ones already followed up on
+  async listOpen(userId: string) {
+    const commitments = await this.list(userId)
+    return commitments.filter(c => c.status === 'open')
+  }
+
+  private toRow(userId: string, commitment: Commitment): SyncRow {
+    return {
+      id: commitment.id,
+      userId,
+      data: encodeRecord('commitments', [commitment]),
+      updatedAt: commitment.updatedAt
+    }
+  }
+
+  // Inserts or replaces each commitment by id
+  async saveMany(userId: string, changed: Commitment[]) {
+    if (changed.length === 0) return
+    const stamped = changed.map(c => ({ ...c, updatedAt: new Date().toISOString() }))
+    const commitments = this.sort([
+      ...stamped,
+      ...(await this.list(userId)).filter(c => !stamped.some(s => s.id === c.id))
+    ])
+    await this.backend.setItem(this.key(userId), encodeRecord('commitments', commitments))
+    this.changes.emit(userId)
+    await this.sync?.enqueue(COMMITMENTS_TABLE, stamped.map(c => this.toRow(userId, c)))
+  }
+
+  // Merges remote commitments into the local list and queues local-only changes for upload
+  async pull(userId: string) {
+    if (!this.sync) return
+    const rows = await this.sync.pull(COMMITMENTS_TABLE, userId)
+    const local = await this.list(userId)
+    const { pulled, pushed } = reconcile(
+      local,
+      rows,
+      c => this.toRow(userId, c),
+      row => parseRow<Commitment[]>(this.issues, 'commitments', COMMITMENTS_TABLE, row)?.[0] ?? null
+    )
+    if (pulled.length > 0) {
+      const merged = this.sort([...pulled, ...local.filter(c => !pulled.some(p => p.id === c.id))])
+      await this.backend.setItem(this.key(userId), encodeRecord('commitments', merged))
+      this.changes.emit(userId)
+    }
+    if (pushed.length > 0) await this.sync.enqueue(COMMITMENTS_TABLE, pushed)
+  }
+
+  subscribe(userId: string, listener: Listener) {
+    return this.changes.subscribe(userId, listener)
+  }
+}
+
+export class ProfileRepository {
+  private backend: StorageBackend
+  private sync?: SyncQueue
+  private issues: IssueLog
+  private changes = createChangeEmitter()
+
+  constructor(backend: StorageBackend, sync?: SyncQueue, issues: IssueLog = createIssueLog()) {
+    this.backend = backend
+    this.sync = sync
+    this.issues = issues
+  }
+
+  private key(userId: string) {
+    return `founder_profile_${userId}`
+  }
+
+  async get(userId: string) {
+    return readRecord<FounderProfile>(this.backend, this.issues, 'profile', this.key(userId))
+  }
+
+  async save(userId: string, profile: FounderProfile) {
+    const profileData: FounderProfile = {
+      ...profile,
+      updatedAt: new Date().toISOString()
+    }
+    await this.backend.setItem(this.key(userId), encodeRecord('profile', profileData))
+    this.changes.emit(userId)
+    await this.sync?.enqueue(PROFILES_TABLE, [this.toRow(userId, profileData)])
+    return profileData
+  }
+
+  private toRow(userId: string, profile: FounderProfile): SyncRow {
+    return {
+      id: userId,
+      userId,
+      data: encodeRecord('profile', profile),
+      updatedAt: profile.updatedAt ?? new Date(0).toISOString()
+    }
+  }
+
+  // Keeps whichever of the local and remote profile was updated last
+  async pull(userId: string) {
+    if (!this.sync) return
+    const rows = await this.sync.pull(PROFILES_TABLE, userId)
+    const local = await this.get(userId)
+    const { pulled, pushed } = reconcile(
+      local ? [local] : [],
+      rows,
+      p => this.toRow(userId, p),
+      row => parseRow<FounderProfile>(this.issues, 'profile', PROFILES_TABLE, row)
+    )
+    if (pulled.length > 0) {
+      await this.backend.setItem(this.key(userId), encodeRecord('profile', pulled[0]))
+      this.changes.emit(userId)
+    }
+    if (pushed.length > 0) await this.sync.enqueue(PROFILES_TABLE, pushed)
+  }
+
+  subscribe(userId: string, listener: Listener) {
+    return this.changes.subscribe(userId, listener)
+  }
+}
+
+// Required fields before the main app unlocks
+export function isProfileComplete(profile: FounderProfile | null) {
+  return Boolean(
+    profile?.companyName &&
+    profile.industry &&
+    profile.stage &&
+    profile.goals &&
+    profile.goals.length > 0
+  )
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryBackend } from './backends'
+import { createMemoryDatabase, type SyncRow } from './remote'
+import { SummaryRepository } from './repositories'
+import { SyncQueue } from './sync'
+import type { WeeklySummary } from './types'
+
+const row = (id: string, updatedAt: string, data = id): SyncRow => ({ id, userId: 'user-1', data, updatedAt })
+
+const summary = (id: string, weekStartDate: string): WeeklySummary => ({
+  id,
+  weekStartDate,
+  weekEndDate: weekStartDate,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  summaryText: '',
+  progressHighlights: [],
+  challengesIdentified: [],
+  mentalBlocksAddressed: [],
+  recommendations: []
+})
+
+describe('SyncQueue', () => {
+  it('keeps writes queued while offline and replays them once back online', async () => {
+    const remote = createMemoryDatabase()
+    const queue = new SyncQueue(remote, createMemoryBackend())
+
+    remote.setOffline(true)
+    await queue.enqueue('reflections', [row('a', '2026-01-01T10:00:00.000Z')])
+    await queue.flush()
+    expect(await queue.pendingCount()).toBe(1)
+
+    remote.setOffline(false)
+    await queue.flush()
+    expect(await queue.pendingCount()).toBe(0)
+    expect(remote.rows('reflections')).toEqual([row('a', '2026-01-01T10:00:00.000Z')])
+  })
+
+  it('survives a reload by persisting the queue in the backend', async () => {
+    const remote = createMemoryDatabase()
+    const backend = createMemoryBackend()
+    remote.setOffline(true)
+    await new SyncQueue(remote, backend).enqueue('reflections', [row('a', '2026-01-01T10:00:00.000Z')])
+
+    remote.setOffline(false)
+    await new SyncQueue(remote, backend).flush()
+    expect(remote.rows('reflections')).toHaveLength(1)
+  })
+
+  it('does not overwrite a newer remote row with an older queued write', async () => {
+    const remote = createMemoryDatabase()
+    await remote.table('reflections').upsert(row('a', '2026-01-02T10:00:00.000Z', 'newer'))
+    const queue = new SyncQueue(remote, createMemoryBackend())
+
+    await queue.enqueue('reflections', [row('a', '2026-01-01T10:00:00.000Z', 'older')])
+    await queue.flush()
+
+    expect(await queue.pendingCount()).toBe(0)
+    expect(remote.rows('reflections')[0].data).toBe('newer')
+  })
+
+  it('keeps only the latest queued write for a row', async () => {
+    const remote = createMemoryDatabase()
+    const queue = new SyncQueue(remote, createMemoryBackend())
+    remote.setOffline(true)
+
+    await queue.enqueue('reflections', [row('a', '2026-01-01T10:00:00.000Z', 'first')])
+    await queue.enqueue('reflections', [row('a', '2026-01-01T11:00:00.000Z', 'second')])
+    await queue.flush()
+    expect(await queue.pendingCount()).toBe(1)
+
+    remote.setOffline(false)
+    await queue.flush()
+    expect(remote.rows('reflections')[0].data).toBe('second')
+  })
+})
+
+describe('SummaryRepository', () => {
+  it('queues only the summary that changed', async () => {
+    const remote = createMemoryDatabase()
+    const queue = new SyncQueue(remote, createMemoryBackend())
+    const summaries = new SummaryRepository(createMemoryBackend(), queue)
+    await summaries.save('user-1', summary('week-1', '2026-01-05'))
+    await summaries.save('user-1', summary('week-2', '2026-01-12'))
+    await queue.flush()
+
+    remote.setOffline(true)
+    await summaries.save('user-1', { ...summary('week-2', '2026-01-12'), summaryText: 'Revised' })
+    await queue.flush()
+
+    expect(await queue.pendingCount()).toBe(1)
+    expect(await summaries.list('user-1')).toHaveLength(2)
+  })
+})
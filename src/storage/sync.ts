@@ -0,0 +1,138 @@
+import type { StorageBackend } from './backends'
+import type { RemoteDatabase, SyncRow } from './remote'
+
+interface QueuedWrite {
+  table: string
+  row: SyncRow
+}
+
+const QUEUE_KEY = 'sync_queue'
+
+const toMillis = (timestamp: string) => Date.parse(timestamp) || 0
+
+/**
+ * Durable outbox for remote writes. Writes are persisted locally first, so the
+ * app keeps working offline; the queue is replayed whenever the browser comes
+ * back online. A queued write is dropped when the remote row is at least as
+ * new, which makes `updatedAt` the conflict tie-breaker.
+ */
+export class SyncQueue {
+  private remote: RemoteDatabase
+  private backend: StorageBackend
+  private flushing: Promise<void> | null = null
+
+  constructor(remote: RemoteDatabase, backend: StorageBackend) {
+    this.remote = remote
+    this.backend = backend
+  }
+
+  private async read(): Promise<QueuedWrite[]> {
+    const raw = await this.backend.getItem(QUEUE_KEY)
+    if (!raw) return []
+    try {
+      return JSON.parse(raw)
+    } catch (error) {
+      console.error('Error parsing sync queue:', error)
+      return []
+    }
+  }
+
+  private async write(queue: QueuedWrite[]) {
+    await this.backend.setItem(QUEUE_KEY, JSON.stringify(queue))
+  }
+
+  async enqueue(table: string, rows: SyncRow[]) {
+    const queue = await this.read()
+    const pending = queue.filter(write =>
+      write.table !== table || !rows.some(row => row.id === write.row.id)
+    )
+    await this.write([...pending, ...rows.map(row => ({ table, row }))])
+    this.flush().catch(error => console.error('Error flushing sync queue:', error))
+  }
+
+  async pendingCount() {
+    return (await this.read()).length
+  }
+
+  // Replays queued writes in order, stopping at the first failure so nothing is lost
+  flush() {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  private async replay() {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return
+
+    let queue = await this.read()
+    while (queue.length > 0) {
+      const { table, row } = queue[0]
+      try {
+        const remoteTable = this.remote.table<SyncRow>(table)
+        const existing = await remoteTable.get(row.id)
+        if (!existing || toMillis(existing.updatedAt) < toMillis(row.updatedAt)) {
+          await remoteTable.upsert(row)
+        }
+      } catch (error) {
+        console.warn('Sync paused, will retry when back online:', error)
+        return
+      }
+      // Re-read in case new writes were queued while this one was in flight
+      queue = (await this.read()).filter(write =>
+        write.table !== table || write.row.id !== row.id || write.row.updatedAt !== row.updatedAt
+      )
+      await this.write(queue)
+    }
+  }
+
+  // Fetches the user's remote rows after pushing anything still queued
+  async pull(table: string, userId: string) {
+    await this.flush()
+    return this.remote.table<SyncRow>(table).list({ where: { userId } })
+  }
+
+  // Replays the queue whenever the browser reconnects; returns a cleanup function
+  start() {
+    const handleOnline = () => {
+      this.flush().catch(error => console.error('Error flushing sync queue:', error))
+    }
+    window.addEventListener('online', handleOnline)
+    handleOnline()
+    return () => window.removeEventListener('online', handleOnline)
+  }
+}
+
+/**
+ * Splits local records and remote rows into what must be written locally
+ * (remote is newer or missing locally) and what must be pushed (local is
+ * newer or missing remotely). Rows that `parse` rejects are left alone.
+ */
+export function reconcile<T>(
+  local: T[],
+  rows: SyncRow[],
+  toRow: (record: T) => SyncRow,
+  parse: (row: SyncRow) => T | null
+) {
+  const remoteById = new Map(rows.map(row => [row.id, row]))
+  const localById = new Map(local.map(record => [toRow(record).id, record]))
+
+  const pulled: T[] = []
+  for (const row of rows) {
+    const localRecord = localById.get(row.id)
+    if (localRecord && toMillis(toRow(localRecord).updatedAt) >= toMillis(row.updatedAt)) continue
+    const record = parse(row)
+    if (record) pulled.push(record)
+  }
+
+  const pushed = local
+    .map(toRow)
+    .filter(row => {
+      const remoteRow = remoteById.get(row.id)
+      return !remoteRow || toMillis(remoteRow.updatedAt) < toMillis(row.updatedAt)
+    })
+
+  return { pulled, pushed }
+}
@@ -0,0 +1,269 @@
+export interface Message {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: number
+  promptVersion?: string // on assistant turns, the registry prompt that wrote it, e.g. "coach_question@v1"
+  interventionId?: string // on assistant turns that are a step of an exercise
+}
+
+export interface TopicCoverage {
+  mentioned: boolean
+  explored: boolean
+  specificity: number // 0-3 scale
+  lastQuestionIndex: number
+}
+
+// How the closing turn is framed: a recap with commitments for tomorrow, a plan for today, a retro, or fundraising next steps
+export type WrapUpFormat = 'daily_recap' | 'day_plan' | 'weekly_retro' | 'fundraising_prep'
+
+// Defines a kind of session: how it opens, what it covers and how long it runs
+export interface SessionTemplate {
+  id: string
+  name: string
+  description: string
+  openingQuestion: string
+  topics: string[] // core topic ids the coach steers between
+  maxQuestions: number
+  maxMinutes: number
+  wrapUpFormat: WrapUpFormat
+  isBuiltIn?: boolean
+}
+
+// How long a founder wants a session to run; quick and deep-dive override the template's budget
+export type SessionLength = 'quick' | 'standard' | 'deep_dive'
+
+// Whether the session clock is running; idle is a pause the app took after the founder went quiet
+export type SessionStatus = 'active' | 'paused' | 'idle' | 'abandoned'
+
+// How strongly an answer signals distress; only acute distress stops the coaching
+export type DistressLevel = 'none' | 'elevated' | 'acute'
+
+// Raised on a session when an answer showed acute distress; it stays on the session for good
+export interface SafetyFlag {
+  messageId: string // the first answer that raised it
+  flaggedAt: string
+  acknowledgedAt?: string // when the founder chose to carry on after seeing the resources; cleared if raised again
+}
+
+export type WellbeingDimension = 'mood' | 'energy' | 'stress'
+
+// Self-rated on 1-10 sliders; stress runs the other way, 10 being the most stressed
+export type WellbeingScores = Record<WellbeingDimension, number>
+
+export interface WellbeingCheckIn extends WellbeingScores {
+  recordedAt: string
+}
+
+// Either can be missing: the founder may skip a check-in or leave before the end
+export interface SessionCheckIns {
+  start?: WellbeingCheckIn
+  end?: WellbeingCheckIn
+}
+
+// Session progress as it stood after an assistant turn, so the conversation can be rewound to it
+export interface SessionCheckpoint {
+  messageCount: number
+  questionCount: number
+  topics: string[]
+  topicCoverage: {
+    [key: string]: TopicCoverage
+  }
+  currentFocus: string | null
+  interventions?: Intervention[]
+}
+
+export interface SessionState {
+  startTime: number
+  questionCount: number
+  maxQuestions: number
+  maxMinutes?: number // absent on sessions from before length modes, which ran to the template's limit
+  length?: SessionLength
+  status?: SessionStatus // absent on sessions from before pausing, which were always active
+  activeMs?: number // active time banked before the current stretch; absent on sessions timed from startTime
+  resumedAt?: number // start of the running stretch; absent while paused or once finished
+  isComplete: boolean
+  topics: string[]
+  topicCoverage: {
+    [key: string]: TopicCoverage
+  }
+  currentFocus: string | null
+  followUpCommitmentIds?: string[] // earlier commitments this session opened by asking about
+  template?: SessionTemplate // snapshot of the template the session was started from
+  checkpoints?: SessionCheckpoint[]
+  interventions?: Intervention[] // exercises run this session, oldest first
+  safetyFlag?: SafetyFlag
+  checkIns?: SessionCheckIns
+}
+
+export type Mood = 'energized' | 'positive' | 'neutral' | 'stressed' | 'discouraged'
+
+// Structured AI read of a completed reflection, generated once and stored with it
+export interface ReflectionAssessment {
+  progressScore: number // 0-100
+  progressRationale: string
+  mentalBlocks: string[]
+  keyInsights: string[]
+  mood: Mood
+  commitments: string[]
+  assessedAt: string
+}
+
+// The closing turn of a session, written from what was actually discussed
+export interface SessionWrapUp {
+  recap: string
+  topInsight: string
+  commitments: string[] // what the founder will do next
+  format?: WrapUpFormat // absent on wrap-ups from before templates, which were daily recaps
+  promptVersion?: string
+  createdAt: string
+}
+
+export type MentalBlockId =
+  | 'perfectionism'
+  | 'imposter_syndrome'
+  | 'fear_of_selling'
+  | 'decision_paralysis'
+  | 'burnout'
+  | 'fear_of_failure'
+  | 'procrastination'
+  | 'isolation'
+
+// A mental block spotted in one of the founder's answers, with the words that showed it
+export interface BlockDetection {
+  block: MentalBlockId
+  messageId: string
+  evidence: string // quoted verbatim from the answer
+  intensity: number // 1-3 scale
+}
+
+export type InterventionExercise = 'reframe' | 'worst_best_case' | 'five_whys' | 'tiny_next_step'
+
+// Where an exercise ended up, written from the founder's answers to it
+export interface InterventionOutcome {
+  insight: string // what the founder concluded, in a sentence
+  nextStep?: string
+  completedAt: string
+}
+
+// A short structured exercise the coach switched into after spotting a mental block
+export interface Intervention {
+  id: string
+  block: MentalBlockId
+  exercise: InterventionExercise
+  triggerMessageId: string
+  evidence: string
+  stepsAsked: number
+  status: 'active' | 'completed' | 'skipped'
+  outcome?: InterventionOutcome
+}
+
+// Mental blocks classified from a completed session's answers; detections are empty when none showed
+export interface MentalBlockAnalysis {
+  detections: BlockDetection[]
+  promptVersion?: string
+  analyzedAt: string
+}
+
+// One reflection session; a day can hold several
+export interface ReflectionData {
+  id: string // `${date}_${startedAt}`; sessions saved before multiple sessions per day use the bare date
+  date: string
+  messages: Message[]
+  sessionState?: SessionState
+  assessment?: ReflectionAssessment
+  wrapUp?: SessionWrapUp
+  blockAnalysis?: MentalBlockAnalysis
+  userId: string
+  updatedAt: number
+}
+
+// A summary bullet and the reflection dates (YYYY-MM-DD) it was drawn from
+export interface SummaryPoint {
+  text: string
+  sourceDates: string[]
+}
+
+export interface WeeklySummaryContent {
+  summaryText: string
+  progressHighlights: SummaryPoint[]
+  challengesIdentified: SummaryPoint[]
+  mentalBlocksAddressed: SummaryPoint[]
+  recommendations: SummaryPoint[]
+}
+
+// A superseded generation, kept when a summary is regenerated
+export interface SummaryVersion extends WeeklySummaryContent {
+  createdAt: string
+}
+
+// A summary covers either a single week or a two-week sprint
+export type ReportingPeriod = 'week' | 'sprint'
+
+export interface WeeklySummary extends WeeklySummaryContent {
+  id: string
+  weekStartDate: string
+  weekEndDate: string
+  period?: ReportingPeriod // absent on summaries written before sprints, which are weekly
+  createdAt: string
+  updatedAt?: string
+  previousVersions?: SummaryVersion[] // newest first
+}
+
+// An expired commitment went unresolved until it was too old to follow up on
+export type CommitmentStatus = 'open' | 'done' | 'partial' | 'dropped' | 'expired'
+
+// A next step the founder committed to in a session, followed up in later sessions
+export interface Commitment {
+  id: string
+  text: string
+  sourceDate: string // day of the reflection the commitment was made in
+  sourceSessionId?: string // absent on commitments captured before multiple sessions per day
+  status: CommitmentStatus
+  followedUpSessionId?: string // session that opened by asking about it; each commitment is asked about once
+  resolvedDate?: string // reflection in which the outcome was recorded
+  createdAt: string
+  updatedAt: string
+}
+
+export type RetrospectivePeriod = 'month' | 'quarter'
+
+export interface RetrospectiveContent {
+  overview: string
+  progressTrend: SummaryPoint[]
+  recurringBlocks: SummaryPoint[]
+  goalMovement: SummaryPoint[]
+}
+
+// A monthly or quarterly rollup of weekly summaries and any unsummarized reflections
+export interface Retrospective extends RetrospectiveContent {
+  id: string
+  period: RetrospectivePeriod
+  startDate: string
+  endDate: string
+  summaryIds: string[] // weekly summaries the rollup was built from
+  reflectionDates: string[] // reflections read directly because no summary covered them
+  createdAt: string
+  updatedAt?: string
+}
+
+// Where the founder is, for the support lines shown when a session is flagged
+export type SupportRegion = 'us' | 'ca' | 'uk' | 'ie' | 'au' | 'nz' | 'international'
+
+export interface FounderProfile {
+  companyName: string
+  industry: string
+  stage: string
+  goals: string[]
+  currentChallenges: string[]
+  reflectionStreak: number
+  lastReflectionDate: string
+  timeZone?: string // IANA name; reflection days are computed in this zone
+  weekStartsOn?: number // 0 = Sunday ... 6 = Saturday
+  reportingPeriod?: ReportingPeriod
+  sprintStartDate?: string // first day of any sprint; two-week sprints repeat from it
+  sessionTemplates?: SessionTemplate[] // templates the founder created
+  sessionLength?: SessionLength // preferred length, preselected when starting a session
+  supportRegion?: SupportRegion // absent until chosen; guessed from the timezone meanwhile
+  updatedAt?: string
+}